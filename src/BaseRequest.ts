@@ -12,12 +12,72 @@ import type {
   ErrorInterceptor,
   RequestInterceptor,
   ResponseInterceptor,
+  ResponseCacheOptions,
+  CacheEntry,
+  StaleWhileRevalidateOptions,
+  DedupeOptions,
+  HedgingOptions,
+  RequestEventMap,
+  RequestEventName,
+  Tracer,
+  BodySerializer,
+  TracingSpan,
+  RequestTimings,
+  ProgressCallback,
+  ProgressOptions,
+  ResumeOptions,
+  StandardSchemaV1,
+  InferSchemaOutput,
+  ServerSentEvent,
+  EventStreamOptions,
 } from "./types.js";
 import { ResponseWrapper } from "./ResponseWrapper.js";
 import { CookieUtils } from "./utils/CookieUtils.js";
 import { RequestError, errorMessage, toError } from "./RequestError.js";
 import { CsrfUtils } from "./utils/CsrfUtils.js";
 import { Config } from "./utils/Config.js";
+import { RetryUtils } from "./utils/RetryUtils.js";
+import { ResponseCache } from "./utils/ResponseCache.js";
+import { RequestDedupe } from "./utils/RequestDedupe.js";
+import type { RequestQueue } from "./utils/RequestQueue.js";
+import type { RateLimiter } from "./utils/RateLimiter.js";
+import type { CircuitBreaker } from "./utils/CircuitBreaker.js";
+import { Hedging } from "./utils/Hedging.js";
+import type { RequestEvents } from "./utils/RequestEvents.js";
+import type { Serializers } from "./utils/Serializers.js";
+import { Tracing } from "./utils/Tracing.js";
+import { Progress } from "./utils/Progress.js";
+import { Resume } from "./utils/Resume.js";
+import { ResponseUtils } from "./utils/ResponseUtils.js";
+import { EventStream, type EventStreamState } from "./utils/EventStream.js";
+import { Schema } from "./utils/Schema.js";
+
+/**
+ * Per-execution state shared by the retry loop and each attempt
+ */
+type RunContext = {
+  /** Timestamp (ms) after which no further attempts are made */
+  deadline?: number;
+  /** Response cache key, set when a successful response should be stored */
+  cacheKey?: string;
+  /** Stale cache entry being revalidated with a conditional request */
+  revalidate?: CacheEntry;
+  /** Stale cache entry that may be served if the request fails (`stale-if-error`) */
+  stale?: CacheEntry;
+  /** Index of the hedged request that won the last attempt */
+  hedge?: number;
+  /** The current attempt number (1-based) */
+  attempt?: number;
+  /** Timing breakdown, shared with the response or error */
+  timings: RequestTimings;
+  /** `Range` / `If-Range` headers of a request resuming an interrupted download */
+  range?: Record<string, string>;
+  /** Headers added to this request only, such as the `Content-Range` of an upload chunk */
+  headers?: Record<string, string>;
+  /** Tracer and span of the logical request, parent of the attempt spans */
+  tracer?: Tracer;
+  span?: TracingSpan;
+};
 
 /**
  * Base class with common functionality for all request types
@@ -33,6 +93,19 @@ export abstract class BaseRequest {
   protected _fetch?: FetchFunction;
   protected _query: URLSearchParams = new URLSearchParams();
   protected _autoCsrf: boolean = true;
+  private _respCache?: ResponseCacheOptions;
+  private _swr?: StaleWhileRevalidateOptions;
+  private _dedupe?: DedupeOptions;
+  private _queue?: RequestQueue;
+  private _limiter?: RateLimiter;
+  private _breaker?: CircuitBreaker;
+  private _hedging?: HedgingOptions;
+  private _events?: RequestEvents;
+  private _tracer?: Tracer;
+  private _download?: { onProgress: ProgressCallback; options: ProgressOptions };
+  private _resume?: ResumeOptions;
+  private _schema?: StandardSchemaV1;
+  private _serializers?: Serializers;
 
   // Per-request interceptors
   private _reqI: RequestInterceptor[] = [];
@@ -145,6 +218,26 @@ export abstract class BaseRequest {
     return this;
   }
 
+  /**
+   * Set an overall deadline for the request, covering all retry attempts and the delays between them.
+   * Unlike `withTimeout()`, which applies to each attempt separately, the deadline bounds the total wall time.
+   * When it is exceeded, a RequestError with `isDeadline` (and `isTimeout`) set is thrown and no further retries are made.
+   *
+   * @param deadline - The deadline in milliseconds
+   * @returns The request instance for chaining
+   * @throws RequestError if deadline is not a positive number
+   *
+   * @example
+   * // Each attempt may take up to 2 seconds, but give up after 5 seconds in total
+   * request.withTimeout(2000).withRetries({ attempts: 5, delay: 500 }).withDeadline(5000);
+   */
+  withDeadline(deadline: number): this {
+    if (!Number.isFinite(deadline) || deadline <= 0) throw new RequestError("Bad deadline", this._url, this._method);
+
+    this._opts.deadline = deadline;
+    return this;
+  }
+
   /**
    * Configure automatic retry behavior for failed requests
    *
@@ -176,6 +269,21 @@ export abstract class BaseRequest {
    *     return attempt * 1000; // Exponential backoff
    *   }
    * });
+   *
+   * @example
+   * // By default only network errors, timeouts, 408, 429 and 5xx are retried
+   * request.withRetries({ attempts: 3, retryOn: [429, 503] }); // Narrow the retried statuses
+   *
+   * @example
+   * // Full control over which failures are retried
+   * request.withRetries({
+   *   attempts: 3,
+   *   shouldRetry: ({ error }) => error.isTimeout || error.status === 503
+   * });
+   *
+   * @example
+   * // Honor Retry-After / RateLimit-Reset on 429 and 503 responses, capped at 30 seconds
+   * request.withRetries({ attempts: 3, delay: 1000, retryAfterMode: "override", maxDelay: 30000 });
    */
   withRetries(retries: number | RetryConfig): this {
     const isNumber = typeof retries === "number";
@@ -191,6 +299,18 @@ export abstract class BaseRequest {
         throw new RequestError(`Bad delay: ${typeof delay}`, this._url, this._method);
       }
     }
+    if (!isNumber && retries.retryOn !== undefined && (!Array.isArray(retries.retryOn) || !retries.retryOn.every(Number.isInteger))) {
+      throw new RequestError("Bad retryOn", this._url, this._method);
+    }
+    if (!isNumber && retries.shouldRetry !== undefined && typeof retries.shouldRetry !== "function") {
+      throw new RequestError("Bad shouldRetry", this._url, this._method);
+    }
+    if (!isNumber && retries.retryAfterMode !== undefined && retries.retryAfterMode !== "override" && retries.retryAfterMode !== "cap") {
+      throw new RequestError(`Bad retryAfterMode: ${String(retries.retryAfterMode)}`, this._url, this._method);
+    }
+    if (!isNumber && retries.maxDelay !== undefined && (!Number.isFinite(retries.maxDelay) || retries.maxDelay < 0)) {
+      throw new RequestError(`Bad maxDelay: ${retries.maxDelay}`, this._url, this._method);
+    }
     this._opts.retries = retries;
     return this;
   }
@@ -562,6 +682,259 @@ export abstract class BaseRequest {
     };
   }
 
+  /**
+   * Enables the response cache for this request. Successful GET responses are stored and
+   * served from the cache while fresh, without touching the network.
+   *
+   * Follows HTTP cache semantics: `Cache-Control: max-age` (or `Expires`) on the response sets the lifetime,
+   * `no-store` responses are not stored, and entries are matched on method, URL (including query
+   * parameters) and the request headers listed in the response's `Vary` header. A request with
+   * `Cache-Control: no-store` or cache mode `no-store` bypasses the cache; `reload` skips the lookup
+   * but still stores the fresh response. Cached responses still run through response interceptors and
+   * have `fromCache` set on the ResponseWrapper.
+   *
+   * Stale entries with an `ETag` or `Last-Modified` validator (and all entries under cache mode `no-cache`, or
+   * responses marked `no-cache`) are revalidated with `If-None-Match` / `If-Modified-Since`; a 304 Not Modified
+   * is served with the cached body and renews the entry's lifetime.
+   *
+   * @param options - Cache options (store and default ttl)
+   * @returns The request instance for chaining
+   * @throws RequestError if ttl is not a non-negative number
+   *
+   * Only responses with a lifetime (`max-age`, `s-maxage` or `Expires`) or a validator are stored. Requests carrying
+   * `Authorization` or `Cookie` headers only store and use responses marked `public` or `s-maxage`.
+   *
+   * @example
+   * // Use the shared in-memory store
+   * const user = await request.withResponseCache().getJson();
+   *
+   * @example
+   * // Custom store and default lifetime
+   * request.withResponseCache({ store: new MemoryCacheStore(500), ttl: 30000 });
+   */
+  withResponseCache(options: ResponseCacheOptions = {}): this {
+    if (options.ttl !== undefined && (!Number.isFinite(options.ttl) || options.ttl < 0)) {
+      throw new RequestError(`Bad ttl: ${options.ttl}`, this._url, this._method);
+    }
+    this._respCache = options;
+    return this;
+  }
+
+  /**
+   * Serves stale cached responses immediately while refreshing them in the background.
+   * Enables the response cache with its defaults if `withResponseCache()` was not called.
+   *
+   * A stale response is served when it is no more than `maxStale` ms past its expiry (default: the response's
+   * `stale-while-revalidate` directive, or unlimited without one); older entries are fetched normally.
+   * The background refresh updates the store and calls `onUpdate` with the new response when the data changed.
+   * Served responses have `fromCache` and `stale` set on the ResponseWrapper.
+   *
+   * @param options - Stale window and refresh callbacks
+   * @returns The request instance for chaining
+   * @throws RequestError if maxStale is not a non-negative number
+   *
+   * @example
+   * const users = await request
+   *   .withStaleWhileRevalidate({ onUpdate: async response => render(await response.getJson()) })
+   *   .getJson();
+   * render(users); // Possibly stale, re-rendered by onUpdate once fresh data arrives
+   */
+  withStaleWhileRevalidate(options: StaleWhileRevalidateOptions = {}): this {
+    if (options.maxStale !== undefined && (Number.isNaN(options.maxStale) || options.maxStale < 0)) {
+      throw new RequestError(`Bad maxStale: ${options.maxStale}`, this._url, this._method);
+    }
+    this._swr = options;
+    this._respCache ??= {};
+    return this;
+  }
+
+  /**
+   * Shares one network call between identical requests in flight at the same time.
+   * Applies to GET, HEAD and OPTIONS requests with the same method, resolved URL (including query parameters)
+   * and headers. Each caller still runs its own interceptors, retries and timeout, and gets an
+   * independently readable ResponseWrapper. Aborting one caller doesn't affect the others.
+   *
+   * @param options - Dedupe options
+   * @param options.headers - Header names that distinguish requests (default: all headers)
+   * @returns The request instance for chaining
+   * @throws RequestError if headers is not an array of strings
+   *
+   * @example
+   * // Both share a single fetch
+   * const [a, b] = await Promise.all([
+   *   create.get('/api/me').withDedupe().getJson(),
+   *   create.get('/api/me').withDedupe().getJson(),
+   * ]);
+   */
+  withDedupe(options: DedupeOptions = {}): this {
+    if (options.headers !== undefined && (!Array.isArray(options.headers) || !options.headers.every(name => typeof name === "string"))) {
+      throw new RequestError("Bad dedupe headers", this._url, this._method);
+    }
+    this._dedupe = options;
+    return this;
+  }
+
+  /**
+   * Sends duplicates of a slow GET, HEAD or OPTIONS request and uses whichever succeeds first.
+   * If no response arrived within `delayMs`, another copy is sent, up to `maxHedges` copies; a network error
+   * or 5xx response sends the next copy right away. The first successful response (status below 400) wins and the
+   * remaining requests are aborted through their own AbortControllers. A 4xx response stops sending copies and
+   * is used once the requests still in flight have failed. The timeout, abort controller, custom fetch and
+   * interceptors apply as usual, and `hedgeIndex` on the ResponseWrapper tells which request won.
+   *
+   * @param options - Hedging options
+   * @param options.delayMs - How long to wait for a response before sending the next copy
+   * @param options.maxHedges - Maximum number of extra copies (default: 1)
+   * @returns The request instance for chaining
+   * @throws RequestError if delayMs is negative or maxHedges is not a positive integer
+   *
+   * @example
+   * const response = await request.withHedging({ delayMs: 100, maxHedges: 2 }).getResponse();
+   * console.log(response.hedgeIndex); // 0 if the original request won
+   */
+  withHedging(options: HedgingOptions): this {
+    const { delayMs, maxHedges = 1 } = options;
+    if (!Number.isFinite(delayMs) || delayMs < 0 || !Number.isInteger(maxHedges) || maxHedges < 1) {
+      throw new RequestError("Bad hedging", this._url, this._method);
+    }
+    this._hedging = options;
+    return this;
+  }
+
+  /**
+   * Traces the request with the given tracer, overriding the global one set with `config.setTracer()`.
+   * The request gets a span, and each attempt a child span with HTTP semantic-convention attributes
+   * (`http.request.method`, `url.full`, `http.response.status_code`, `error.type`, ...). The attempt's trace
+   * context is sent in the `traceparent` and `tracestate` headers, unless the request sets `traceparent` itself.
+   *
+   * @param tracer - A tracer implementing `startSpan(name, { attributes, parent })`
+   * @returns The request instance for chaining
+   *
+   * @example
+   * const users = await request.withTracing(tracer).withRetries(2).getJson();
+   */
+  withTracing(tracer: Tracer): this {
+    this._tracer = tracer;
+    return this;
+  }
+
+  /**
+   * Reports download progress while the response body is read by `getJson()`, `getText()`, `getBlob()`,
+   * `getArrayBuffer()` or the stream from `getBody()`. `total` comes from the `Content-Length` header; for
+   * content-encoded (e.g. gzip) responses, whose length header gives the compressed size, and responses without
+   * one, `total` is only reported once the body has been read.
+   *
+   * @param onProgress - Called with `{ loaded, total, percent }` as the body is read
+   * @param options - Progress options
+   * @param options.throttleMs - Minimum time between two reports; the final report is always made (default: 0)
+   * @returns The request instance for chaining
+   * @throws RequestError if throttleMs is negative
+   *
+   * @example
+   * const blob = await request
+   *   .withDownloadProgress(({ percent }) => (progressBar.value = percent ?? 0), { throttleMs: 100 })
+   *   .getBlob();
+   */
+  withDownloadProgress(onProgress: ProgressCallback, options: ProgressOptions = {}): this {
+    Progress.validate(options, this._url, this._method);
+    this._download = { onProgress, options };
+    return this;
+  }
+
+  /**
+   * Resumes a GET download that fails mid-stream instead of failing the body read.
+   * The request is re-issued with `Range: bytes=N-` (and `If-Range` with the response's ETag or Last-Modified),
+   * and a `206 Partial Content` response is stitched onto the bytes already read. If the server ignores the range
+   * and sends the full body again, the bytes already read are skipped; if the resource changed meanwhile, reading
+   * fails. Resume requests run through interceptors and the retry configuration of `withRetries()`.
+   * Responses with a `Content-Encoding` (other than `identity`) are not resumed, since fetch decodes them and
+   * the bytes read don't match the range offsets of the encoded representation.
+   *
+   * @param options - Resume options
+   * @param options.maxResumes - Maximum number of resumes (default: 3)
+   * @returns The request instance for chaining
+   * @throws RequestError if maxResumes is not a non-negative integer
+   *
+   * @example
+   * const artifact = await create.get('/artifacts/build.tar.gz')
+   *   .withRetries({ attempts: 3, delay: 1000 })
+   *   .withResume({ maxResumes: 5 })
+   *   .getArrayBuffer();
+   */
+  withResume(options: ResumeOptions = {}): this {
+    const { maxResumes = 3 } = options;
+    if (!Number.isInteger(maxResumes) || maxResumes < 0) {
+      throw new RequestError(`Bad maxResumes: ${maxResumes}`, this._url, this._method);
+    }
+    this._resume = options;
+    return this;
+  }
+
+  /**
+   * Validates the data returned by `getJson()`, `getData()` and `getParsed()` (on the request or its response) with a schema.
+   * Accepts any validator implementing Standard Schema (Zod, Valibot, ArkType, ...); the validated, possibly
+   * transformed value is returned. When validation fails, a RequestError is thrown with the validation issues
+   * in `error.issues` and the response body in `error.body`. Use `getData(schema)` to also infer the data type.
+   *
+   * @param schema - The Standard Schema validator
+   * @returns The request instance for chaining
+   * @throws {RequestError} If the schema doesn't implement Standard Schema
+   *
+   * @example
+   * const User = z.object({ id: z.number(), name: z.string() });
+   * const user = await create.get('/api/users/1').withResponseSchema(User).getJson<z.infer<typeof User>>();
+   */
+  withResponseSchema(schema: StandardSchemaV1): this {
+    if (!Schema.is(schema)) throw new RequestError("Bad schema", this._url, this._method);
+    this._schema = schema;
+    return this;
+  }
+
+  /**
+   * Route the request through a shared concurrency queue (see `createApi().withConcurrency()`)
+   * @internal
+   */
+  public setQueue(queue: RequestQueue): this {
+    this._queue = queue;
+    return this;
+  }
+
+  /**
+   * Route the request through a shared rate limiter (see `createApi().withRateLimit()`)
+   * @internal
+   */
+  public setRateLimiter(limiter: RateLimiter): this {
+    this._limiter = limiter;
+    return this;
+  }
+
+  /**
+   * Route the request through a shared circuit breaker (see `createApi().withCircuitBreaker()`)
+   * @internal
+   */
+  public setCircuitBreaker(breaker: CircuitBreaker): this {
+    this._breaker = breaker;
+    return this;
+  }
+
+  /**
+   * Report lifecycle events to the handlers of an API instance (see `createApi().on()`)
+   * @internal
+   */
+  public setEvents(events: RequestEvents): this {
+    this._events = events;
+    return this;
+  }
+
+  /**
+   * Use the body serializers of an API instance before the global ones (see `createApi().withSerializer()`)
+   * @internal
+   */
+  public setSerializers(serializers: Serializers): this {
+    this._serializers = serializers;
+    return this;
+  }
+
   /**
    * Adds query parameters to the request URL.
    * Multiple calls will append parameters. Array values will create multiple query parameters with the same key.
@@ -984,7 +1357,19 @@ export abstract class BaseRequest {
       method: this._method,
     };
 
-    return !this._opts.retries ? this._run(url, fetchOptions) : this._retry(url, fetchOptions);
+    const ctx = this._context();
+    const cached = await this._fromCache(url, fetchOptions, ctx);
+    if (cached) return cached;
+
+    try {
+      return await this._execute(url, fetchOptions, ctx);
+    } catch (error) {
+      // Serve the stale entry instead, if its stale-if-error window allows
+      if (ctx.stale && error instanceof RequestError && ResponseCache.usableOnError(ctx.stale, error)) {
+        return this._cached(ctx.stale, url);
+      }
+      throw error;
+    }
   }
 
   /**
@@ -1016,6 +1401,23 @@ export abstract class BaseRequest {
     return response.getJson<T>();
   }
 
+  /**
+   * Execute the request and parse the response according to its Content-Type.
+   * A `parse` serializer registered for the content type (see `Config.setSerializer()`) is used first;
+   * otherwise JSON responses are parsed with `getJson()` and `text/*` responses read with `getText()`.
+   *
+   * @returns A promise that resolves to the parsed data, or `null` for empty responses
+   * @throws {RequestError} When the request fails, parsing fails, or no parser handles the content type
+   *
+   * @example
+   * Config.getInstance().setSerializer('application/msgpack', { parse: body => decode(body) });
+   * const user = await create.get('/api/users/1').getParsed<User>();
+   */
+  async getParsed<T = unknown>(): Promise<T | null> {
+    const response = await this.getResponse();
+    return response.getParsed<T>();
+  }
+
   /**
    * Execute the request and get the response body as text.
    *
@@ -1092,6 +1494,118 @@ export abstract class BaseRequest {
     return response.getBody();
   }
 
+  /**
+   * Execute the request and read the response as Server-Sent Events (`text/event-stream`).
+   * Sends `Accept: text/event-stream` unless an Accept header is set. Headers, interceptors, retries and the
+   * abort controller apply to the request and to every reconnect. When reconnecting is enabled and the stream
+   * ends or the connection drops, the request is sent again after the retry delay with a `Last-Event-ID` header.
+   * A `204 No Content` response ends the stream without reconnecting.
+   *
+   * @param options - Event stream options
+   * @param options.reconnect - Reconnect when the stream ends or drops (default: true for GET, false for other methods)
+   * @param options.retryDelay - Delay before reconnecting, unless the server sets one with `retry` (default: 3000)
+   * @param options.maxReconnects - Maximum reconnects in a row without receiving an event (default: Infinity)
+   * @returns An async iterable of `{ id, event, data, retry }` events; leaving the loop closes the connection
+   * @throws {RequestError} When the request fails, the response isn't an event stream, or the stream drops without reconnecting
+   *
+   * @example
+   * ```typescript
+   * for await (const { event, data } of create.get('/notifications').getEventStream()) {
+   *   console.log(event, JSON.parse(data));
+   * }
+   * ```
+   *
+   * @example
+   * ```typescript
+   * // POST-based streams, as used by LLM APIs
+   * const events = create.post('/v1/chat').withBody({ prompt, stream: true }).getEventStream();
+   * for await (const { data } of events) {
+   *   if (data === '[DONE]') break;
+   *   output += JSON.parse(data).delta;
+   * }
+   * ```
+   */
+  getEventStream(options: EventStreamOptions = {}): AsyncGenerator<ServerSentEvent, void, undefined> {
+    const { reconnect = this._method === "GET", retryDelay = 3000, maxReconnects = Infinity } = options;
+    if (!Number.isFinite(retryDelay) || retryDelay < 0) {
+      throw new RequestError(`Bad retryDelay: ${retryDelay}`, this._url, this._method);
+    }
+    if (maxReconnects !== Infinity && (!Number.isInteger(maxReconnects) || maxReconnects < 0)) {
+      throw new RequestError(`Bad maxReconnects: ${maxReconnects}`, this._url, this._method);
+    }
+    if (!this._hasHeader("accept")) this.withHeader("Accept", "text/event-stream");
+    return this._eventStream(reconnect, retryDelay, maxReconnects);
+  }
+
+  /**
+   * Execute the request and read the response as newline-delimited JSON (NDJSON / JSON Lines), yielding each
+   * value as its line arrives instead of buffering the whole body. The request is sent when iteration starts.
+   * Blank lines are skipped. Leaving the loop early (`break`, `return` or a thrown error) cancels the response
+   * body, which aborts the download.
+   *
+   * @returns An async iterable of the parsed lines
+   * @throws {RequestError} When the request fails, reading fails, or a line isn't valid JSON (the message gives the line number)
+   *
+   * @example
+   * ```typescript
+   * for await (const entry of create.get('/logs/export').getJsonStream<LogEntry>()) {
+   *   if (entry.level === 'error') {
+   *     console.log(entry.message);
+   *     break; // Stops the download
+   *   }
+   * }
+   * ```
+   */
+  async *getJsonStream<T = unknown>(): AsyncGenerator<T, void, undefined> {
+    const response = await this.getResponse();
+    yield* response.getJsonStream<T>();
+  }
+
+  /**
+   * Execute the request and read the elements of a large JSON array one by one as the body arrives, holding only
+   * the current element in memory. The request is sent when iteration starts. Reading stops once the array closes,
+   * and leaving the loop early cancels the response body.
+   *
+   * @param path - Dot-separated location of a nested array, e.g. `data.items` (default: the root value)
+   * @returns An async iterable of the parsed elements
+   * @throws {RequestError} When the request fails, reading fails, there is no array at `path`, or an element isn't valid JSON
+   *
+   * @example
+   * ```typescript
+   * // { "data": { "items": [{ ... }, { ... }, ...] } }
+   * for await (const item of create.get('/export').getJsonArrayStream<Item>('data.items')) {
+   *   await save(item);
+   * }
+   * ```
+   */
+  async *getJsonArrayStream<T = unknown>(path?: string): AsyncGenerator<T, void, undefined> {
+    const response = await this.getResponse();
+    yield* response.getJsonArrayStream<T>(path);
+  }
+
+  /**
+   * Execute the request, parse the response as JSON and validate it with a schema, returning the typed, validated data.
+   * Accepts any validator implementing Standard Schema (Zod, Valibot, ArkType, ...). Empty responses are validated
+   * as `null`. The schema replaces one set with `withResponseSchema()`.
+   *
+   * @param schema - The Standard Schema validator
+   * @returns A promise that resolves to the validated (and possibly transformed) data
+   * @throws {RequestError} When the request fails, JSON parsing fails, or validation fails (with the issues in `error.issues`)
+   *
+   * @example
+   * const User = z.object({ id: z.number(), name: z.string() });
+   * const user = await create.get('/api/users/1').getData(User); // { id: number; name: string }
+   *
+   * @example
+   * try {
+   *   await create.get('/api/users/1').getData(User);
+   * } catch (error) {
+   *   if (error instanceof RequestError && error.issues) {
+   *     console.log(error.issues); // [{ message: 'Expected number', path: ['id'] }]
+   *   }
+   * }
+   */
+  getData<S extends StandardSchemaV1>(schema: S): Promise<InferSchemaOutput<S>>;
   /**
    * Execute the request and extract specific data using a selector function
    * If no selector is provided, returns the full JSON response.
@@ -1124,9 +1638,10 @@ export abstract class BaseRequest {
    *   }
    * }
    */
-  async getData<T = unknown, R = T>(selector?: (data: T | null) => R): Promise<T | R | null> {
+  getData<T = unknown, R = T>(selector?: (data: T | null) => R): Promise<T | R | null>;
+  async getData<T = unknown, R = T>(selector?: ((data: T | null) => R) | StandardSchemaV1): Promise<unknown> {
     const response = await this.getResponse();
-    return response.getData<T, R>(selector);
+    return Schema.is(selector) ? response.getData(selector) : response.getData<T, R>(selector);
   }
 
   /**
@@ -1196,45 +1711,281 @@ export abstract class BaseRequest {
     }
   }
 
+  /**
+   * Look up a fresh cached response when the response cache is enabled
+   * Also records the cache key in the context when the network response should be stored,
+   * and the stale entry when it should be revalidated with a conditional request.
+   * @param url The formatted URL
+   * @param fetchOptions The fetch options (for the cache mode)
+   * @param ctx The execution context
+   * @returns The cached response, or undefined on a miss
+   */
+  private async _fromCache(url: string, fetchOptions: RequestInit, ctx: RunContext): Promise<ResponseWrapper | undefined> {
+    const options = this._respCache;
+    const headers = this._headers();
+    if (!options || this._method !== "GET" || fetchOptions.cache === "no-store" || ResponseCache.bypass(headers)) return undefined;
+
+    ctx.cacheKey = `${this._method} ${url}`;
+    if (fetchOptions.cache === "reload") return undefined;
+
+    const store = options.store ?? ResponseCache.shared();
+    let entry;
+    try {
+      entry = await store.get(ctx.cacheKey);
+      // The key holds the latest variant; look up the one matching this request's varying headers
+      if (entry && !ResponseCache.matches(entry, headers)) {
+        const variant = ResponseCache.variantKey(ctx.cacheKey, entry, headers);
+        entry = variant === ctx.cacheKey ? undefined : await store.get(variant);
+      }
+    } catch {
+      // A failing store is treated as a cache miss
+      return undefined;
+    }
+    if (!entry || !ResponseCache.matches(entry, headers)) return undefined;
+
+    if (entry.expires > Date.now() && fetchOptions.cache !== "no-cache") return this._cached(entry, url);
+
+    // Leave conditional requests set by the caller untouched
+    const isConditional = this._hasHeader("If-None-Match") || this._hasHeader("If-Modified-Since");
+    if (!isConditional && Object.keys(ResponseCache.validators(entry)).length) ctx.revalidate = entry;
+    ctx.stale = entry;
+
+    const maxStale = this._swr?.maxStale ?? entry.staleWhileRevalidate ?? Infinity;
+    if (this._swr && fetchOptions.cache !== "no-cache" && Date.now() - entry.expires <= maxStale) {
+      this._refresh(url, fetchOptions, ctx);
+      return this._cached(entry, url);
+    }
+    return undefined;
+  }
+
+  /**
+   * Wrap a cache entry as a response and run it through the response interceptors
+   * @param entry The cache entry
+   * @param url The formatted URL
+   * @returns The wrapped cached response
+   */
+  private async _cached(entry: CacheEntry, url: string): Promise<ResponseWrapper> {
+    const wrappedResponse = new ResponseWrapper(ResponseCache.toResponse(entry), url, this._method, this._gql());
+    wrappedResponse.fromCache = true;
+    wrappedResponse.stale = entry.expires <= Date.now();
+    return this._prepare(await this._runResI(wrappedResponse));
+  }
+
+  /**
+   * Attach the response schema (see `withResponseSchema()`) and the body serializers to a response returned to the caller
+   */
+  private _prepare(response: ResponseWrapper): ResponseWrapper {
+    if (this._schema) response.setSchema(this._schema);
+    if (this._serializers) response.setSerializers(this._serializers);
+    return response;
+  }
+
+  /**
+   * Find the body serializer of a Content-Type: the API instance's first, then the global one
+   */
+  protected _serializer(contentType: string | null | undefined): BodySerializer | undefined {
+    return this._serializers?.get(contentType) ?? Config.getInstance().getSerializers().get(contentType);
+  }
+
+  /**
+   * Refresh a stale entry in the background for stale-while-revalidate
+   * At most one refresh runs per cache key; the response is stored by the normal execution path.
+   * @param url The formatted URL
+   * @param fetchOptions The fetch options
+   * @param ctx The execution context (with the cache key and the entry to revalidate)
+   */
+  private _refresh(url: string, fetchOptions: RequestInit, ctx: RunContext): void {
+    const key = ctx.cacheKey!;
+    if (ResponseCache.refreshing.has(key)) return;
+    ResponseCache.refreshing.add(key);
+
+    const { onUpdate, onError } = this._swr!;
+    void this._execute(url, fetchOptions, ctx)
+      .then(async response => {
+        if (response.fromCache || !onUpdate) return;
+        try {
+          await onUpdate(response);
+        } catch (error) {
+          throw new RequestError(`onUpdate: ${errorMessage(error)}`, url, this._method, { status: response.status, cause: toError(error) });
+        }
+      })
+      .catch((error: unknown) => onError?.(error instanceof RequestError ? error : RequestError.networkError(url, this._method, toError(error))))
+      .catch(() => {
+        // A failing onError has nowhere to report to; the refresh is best-effort
+      })
+      .finally(() => ResponseCache.refreshing.delete(key));
+  }
+
+  /**
+   * Store a successful network response in the response cache, if it is cacheable
+   * Vary values and the credentials check come from the headers actually sent, after the request interceptors:
+   * an entry recorded for an `Authorization` added by an interceptor never matches a lookup without it.
+   * @param key The cache key
+   * @param response The network response (left readable)
+   * @param headers The request headers as sent
+   */
+  private async _toCache(key: string, response: Response, headers: Record<string, string>): Promise<void> {
+    const { store = ResponseCache.shared(), ttl = 60000 } = this._respCache!;
+    try {
+      const entry = await ResponseCache.toEntry(response, headers, ttl);
+      if (entry) await ResponseCache.save(store, key, entry);
+    } catch {
+      // Caching is best-effort and never fails the request
+    }
+  }
+
+  /**
+   * Drop the cached GET response of a URL after a successful unsafe request (POST, PUT, PATCH, DELETE, ...) changed it
+   * @param url The formatted URL
+   */
+  private async _invalidate(url: string): Promise<void> {
+    const { store = ResponseCache.shared() } = this._respCache!;
+    try {
+      await store.delete(`GET ${url}`);
+    } catch {
+      // Caching is best-effort and never fails the request
+    }
+  }
+
+  /**
+   * Serve the revalidated entry after a 304 Not Modified and store its refreshed lifetime
+   * @param entry The revalidated entry
+   * @param key The cache key
+   * @param response The 304 response
+   * @returns A response with the cached body
+   */
+  private async _notModified(entry: CacheEntry, key: string, response: Response): Promise<Response> {
+    const { store = ResponseCache.shared(), ttl = 60000 } = this._respCache!;
+    const refreshed = ResponseCache.refresh(entry, response, ttl);
+    try {
+      await ResponseCache.save(store, key, refreshed);
+    } catch {
+      // Caching is best-effort and never fails the request
+    }
+    return ResponseCache.toResponse(refreshed);
+  }
+
+  /**
+   * Perform the network call, hedged if enabled for this idempotent request
+   * @param fetchFn The fetch implementation
+   * @param url The final URL
+   * @param init The final fetch options
+   * @param ctx The execution context (receives the winning hedge index)
+   * @returns The response
+   */
+  private async _hedge(fetchFn: FetchFunction, url: string, init: RequestInit, ctx: RunContext): Promise<Response> {
+    const method = init.method;
+    if (!this._hedging || (method !== "GET" && method !== "HEAD" && method !== "OPTIONS")) return this._send(fetchFn, url, init, ctx);
+
+    const { delayMs, maxHedges = 1 } = this._hedging;
+    const { response, index } = await Hedging.race(signal => this._send(fetchFn, url, { ...init, signal }, ctx), delayMs, maxHedges, init.signal ?? undefined);
+    ctx.hedge = index;
+    return response;
+  }
+
+  /**
+   * Perform the network call, waiting for a slot in the concurrency queue and a rate limit token first
+   * The slot is held until the response body is read to the end, fails or is cancelled. The outcome is reported to the circuit breaker.
+   * @param fetchFn The fetch implementation
+   * @param url The final URL
+   * @param init The final fetch options
+   * @param ctx The execution context (for the queued time)
+   * @returns The response
+   * @throws RequestError if the origin's circuit is open
+   */
+  private async _send(fetchFn: FetchFunction, url: string, init: RequestInit, ctx: RunContext): Promise<Response> {
+    const signal = init.signal ?? undefined;
+    if (this._breaker && !this._breaker.acquire(url)) throw RequestError.circuitOpen(url, this._method);
+
+    let outcome: "success" | "failure" | "ignore" = "ignore";
+    let release: (() => void) | undefined;
+    const waiting = Date.now();
+    try {
+      release = await this._queue?.acquire(url, this._opts.priority, signal);
+      await this._limiter?.acquire(signal);
+      ctx.timings.queued += Date.now() - waiting;
+      // Once sent, failures count against the server (unless the caller aborted)
+      outcome = "failure";
+      const response = await fetchFn(url, init);
+      this._limiter?.update(response.headers);
+      outcome = response.status >= 500 ? "failure" : "success";
+      if (!release) return response;
+      // The body holds the slot from here on
+      const held = release;
+      release = undefined;
+      return ResponseUtils.onBodyEnd(response, held);
+    } catch (error) {
+      if (this._ctrl?.signal.aborted || init.signal?.reason === Hedging.lost) outcome = "ignore";
+      throw error;
+    } finally {
+      release?.();
+      this._breaker?.record(url, outcome);
+    }
+  }
+
   /**
    * Executes a request with configured retry logic
    * @param url The formatted URL to send the request to
    * @param fetchOptions The fetch options to use
+   * @param ctx The execution context (deadline, cache key)
    * @returns A wrapped response object
    * @throws RequestError if the request fails after all retries
    */
-  private async _retry(url: string, fetchOptions: RequestInit): Promise<ResponseWrapper> {
+  private async _retry(url: string, fetchOptions: RequestInit, ctx: RunContext): Promise<ResponseWrapper> {
+    const { deadline } = ctx;
     const retriesConfig = this._opts.retries;
     const maxRetries = typeof retriesConfig === "number" ? retriesConfig : retriesConfig?.attempts || 0;
     const method = typeof fetchOptions.method === "string" ? fetchOptions.method : "GET";
+    // Delay computed for the previous retry, passed to delay functions that build on it
+    let previousDelay: number | undefined;
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      ctx.attempt = attempt + 1;
       try {
-        return await this._run(url, fetchOptions);
+        return await this._run(url, fetchOptions, ctx);
       } catch (error) {
         const requestError = error instanceof RequestError ? error : RequestError.networkError(url, method, toError(error));
 
-        if (attempt >= maxRetries) throw requestError;
+        if (attempt >= maxRetries || !(await this._canRetry(requestError, attempt + 1))) throw requestError;
+
+        // Server-requested wait (Retry-After / RateLimit-Reset), if any
+        const retryAfter = RetryUtils.getRetryAfter(requestError);
 
         // Call onRetry callback if provided
         if (this._opts.onRetry) {
-          await this._opts.onRetry({ attempt: attempt + 1, error: requestError });
+          await this._opts.onRetry({ attempt: attempt + 1, error: requestError, retryAfter });
         }
 
         // Apply delay if configured
-        if (typeof retriesConfig === "object" && retriesConfig.delay !== undefined) {
-          const delay = typeof retriesConfig.delay === "function" ? retriesConfig.delay({ attempt: attempt + 1, error: requestError }) : retriesConfig.delay;
+        let delay = 0;
+        if (typeof retriesConfig === "object") {
+          const configDelay = retriesConfig.delay ?? 0;
+          delay = typeof configDelay === "function" ? configDelay({ attempt: attempt + 1, error: requestError, retryAfter, previousDelay }) : configDelay;
 
           // Validate delay result
           if (typeof delay !== "number" || !Number.isFinite(delay) || delay < 0) {
             throw new RequestError(`Bad delay: ${delay}`, url, method);
           }
+          previousDelay = delay;
+
+          // Let the server hint override or cap the computed delay, then apply the ceiling
+          if (retryAfter !== undefined && retriesConfig.retryAfterMode) {
+            delay = retriesConfig.retryAfterMode === "cap" ? Math.min(delay, retryAfter) : retryAfter;
+          }
+          if (retriesConfig.maxDelay !== undefined) delay = Math.min(delay, retriesConfig.maxDelay);
 
-          // Wait for the delay
-          if (delay > 0) {
-            await new Promise(resolve => setTimeout(resolve, delay));
+          // Fail fast if waiting would exceed the overall deadline
+          if (deadline !== undefined && Date.now() + delay >= deadline) {
+            throw RequestError.deadline(url, method, this._opts.deadline!);
           }
         }
+
+        this._emit("retry", { method, url, attempt: attempt + 1, error: requestError, delay });
+
+        // Wait for the delay (cancelled if the request is aborted meanwhile)
+        if (delay > 0) {
+          await this._sleep(delay, url, method);
+        }
       }
     }
 
@@ -1242,6 +1993,168 @@ export abstract class BaseRequest {
     throw new RequestError(`EO`, url, method);
   }
 
+  /**
+   * Run the request's attempts (with retries if configured) inside the request span, if tracing is enabled
+   */
+  private async _execute(url: string, fetchOptions: RequestInit, ctx: RunContext): Promise<ResponseWrapper> {
+    ctx.tracer = this._tracer ?? Config.getInstance().getTracer() ?? undefined;
+    ctx.span = ctx.tracer && Tracing.start(ctx.tracer, this._method, url);
+    const started = Date.now();
+    try {
+      const response = await (!this._opts.retries ? this._run(url, fetchOptions, ctx) : this._retry(url, fetchOptions, ctx));
+      ctx.timings.total = Date.now() - started;
+      Tracing.end(ctx.span, response.status);
+      return this._prepare(response);
+    } catch (error) {
+      ctx.timings.total = Date.now() - started;
+      if (error instanceof RequestError) {
+        error.timings = ctx.timings;
+        Tracing.fail(ctx.span, error);
+      } else {
+        ctx.span?.end();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send the request with the given body and extra headers, bypassing the response cache
+   * Used by body requests to send each chunk of a chunked upload as a request of its own, with retries if configured.
+   * @param body The body to send
+   * @param headers Headers added to the request headers
+   */
+  protected _dispatch(body: BodyInit, headers: Record<string, string>): Promise<ResponseWrapper> {
+    const url = this._fullUrl(this._url);
+    this._applyCsrf();
+    const fetchOptions: RequestInit = { ...(this._opts as RequestInit), method: this._method, body };
+    return this._execute(url, fetchOptions, { ...this._context(), headers });
+  }
+
+  /**
+   * A fresh execution context, starting the deadline
+   */
+  private _context(): RunContext {
+    return {
+      deadline: this._opts.deadline ? Date.now() + this._opts.deadline : undefined,
+      timings: { queued: 0, interceptors: 0, headers: 0, total: 0, attempts: 0 },
+    };
+  }
+
+  /**
+   * Re-issue a download from a byte offset (see `withResume()`), with retries if configured
+   * @param url The request URL
+   * @param fetchOptions The fetch options
+   * @param ctx The execution context of the interrupted request
+   * @param offset The first missing byte
+   * @param ifRange The validator of the interrupted response, if any
+   * @returns The network response
+   */
+  private async _resumeFrom(url: string, fetchOptions: RequestInit, ctx: RunContext, offset: number, ifRange?: string): Promise<Response> {
+    const range: Record<string, string> = { Range: `bytes=${offset}-` };
+    if (ifRange) range["If-Range"] = ifRange;
+    const resumeCtx: RunContext = { deadline: ctx.deadline, timings: ctx.timings, tracer: ctx.tracer, span: ctx.span, range };
+    const response = await (!this._opts.retries ? this._run(url, fetchOptions, resumeCtx) : this._retry(url, fetchOptions, resumeCtx));
+    return response.raw;
+  }
+
+  /**
+   * Read the events of the request, reconnecting as configured (see `getEventStream()`)
+   */
+  private async *_eventStream(reconnect: boolean, retryDelay: number, maxReconnects: number): AsyncGenerator<ServerSentEvent, void, undefined> {
+    const state: EventStreamState = {};
+    let response: ResponseWrapper | undefined = await this.getResponse();
+    let reconnects = 0;
+    // Error of the last connection, thrown if the stream doesn't reconnect
+    let failure: RequestError | undefined;
+
+    for (;;) {
+      if (response) {
+        if (response.status === 204) return;
+        failure = undefined;
+        try {
+          for await (const event of EventStream.read(response, state)) {
+            reconnects = 0;
+            yield event;
+          }
+        } catch (error) {
+          if (!(error instanceof RequestError) || !EventStream.accepts(response)) throw error;
+          failure = error;
+        }
+      }
+      if (!reconnect || this._ctrl?.signal.aborted || reconnects++ >= maxReconnects) {
+        if (failure) throw failure;
+        return;
+      }
+
+      await this._sleep(state.retry ?? retryDelay, this._url, this._method);
+      if (state.lastEventId) this.withHeader("Last-Event-ID", state.lastEventId);
+      try {
+        response = await this.getResponse();
+      } catch (error) {
+        // Keep reconnecting through network errors; HTTP errors and aborts end the stream
+        if (!(error instanceof RequestError) || error.status !== undefined || error.isAborted) throw error;
+        response = undefined;
+        failure = error;
+      }
+    }
+  }
+
+  /**
+   * Decide whether a failed attempt should be retried
+   * Aborts and exceeded deadlines are never retried. A `shouldRetry` predicate takes precedence over `retryOn`;
+   * otherwise network errors, timeouts, 408, 429 and 5xx responses are retried.
+   * @param error The error of the failed attempt
+   * @param attempt The retry attempt that would be made (1-based)
+   */
+  private async _canRetry(error: RequestError, attempt: number): Promise<boolean> {
+    if (error.isAborted || error.isDeadline || error.isCircuitOpen) return false;
+
+    const retriesConfig = this._opts.retries;
+    const config = typeof retriesConfig === "object" ? retriesConfig : undefined;
+    if (config?.shouldRetry) return !!(await config.shouldRetry({ attempt, error }));
+
+    const status = error.status;
+    if (status === undefined) return true;
+    return config?.retryOn ? config.retryOn.includes(status) : status === 408 || status === 429 || status >= 500;
+  }
+
+  /**
+   * Wait between retry attempts, rejecting early if the external abort controller fires
+   * @param ms The delay in milliseconds
+   * @param url The request URL (for error context)
+   * @param method The request method (for error context)
+   */
+  private _sleep(ms: number, url: string, method: string): Promise<void> {
+    const signal = this._ctrl?.signal;
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(RequestError.abortError(url, method));
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(RequestError.abortError(url, method));
+      };
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Report a lifecycle event to the global handlers, then to those of the API instance
+   */
+  private _emit<E extends RequestEventName>(event: E, payload: RequestEventMap[E]): void {
+    Config.getInstance().getEvents().emit(event, payload);
+    this._events?.emit(event, payload);
+  }
+
+  /**
+   * Whether a global or API instance handler listens to an event
+   */
+  private _listens(event: RequestEventName): boolean {
+    return Config.getInstance().getEvents().has(event) || !!this._events?.has(event);
+  }
+
   /**
    * Run request interceptors in order: global interceptors first, then per-request
    * @param configParam - The request configuration
@@ -1426,6 +2339,14 @@ export abstract class BaseRequest {
     return controller.signal;
   }
 
+  /**
+   * Fetch options for a single attempt, after interceptors ran
+   * Body requests override this to send the body through an upload progress stream.
+   */
+  protected _attemptInit(fetchOptions: RequestInit): RequestInit {
+    return fetchOptions;
+  }
+
   /**
    * Convert fetchOptions to RequestConfig with proper typing
    */
@@ -1468,22 +2389,61 @@ export abstract class BaseRequest {
     }
   }
 
-  private async _run(url: string, fetchOptions: RequestInit): Promise<ResponseWrapper> {
+  private async _run(url: string, fetchOptions: RequestInit, ctx: RunContext): Promise<ResponseWrapper> {
     const method = typeof fetchOptions.method === "string" ? fetchOptions.method : "GET";
+    const requestUrl = url;
+    const { deadline } = ctx;
+
+    // Bound the attempt by the per-attempt timeout or the remaining overall deadline, whichever is sooner
+    const remaining = deadline === undefined ? undefined : Math.max(0, deadline - Date.now());
+    const useDeadline = remaining !== undefined && (!this._opts.timeout || remaining <= this._opts.timeout);
+    const timeoutMs = useDeadline ? remaining : this._opts.timeout;
+    const timeoutError = () => (useDeadline ? RequestError.deadline(url, method, this._opts.deadline!) : RequestError.timeout(url, method, timeoutMs!));
 
     // Setup abort signal with timeout
-    const abortSignal = this._signal(this._opts.timeout, this._ctrl);
+    const abortSignal = this._signal(timeoutMs, this._ctrl);
+
+    const attempt = ctx.attempt ?? 1;
+    const started = Date.now();
+    const { timings } = ctx;
+    timings.attempts++;
+    const intercept = async <T>(run: () => Promise<T>): Promise<T> => {
+      const start = Date.now();
+      try {
+        return await run();
+      } finally {
+        timings.interceptors += Date.now() - start;
+      }
+    };
+    const span = ctx.tracer && Tracing.start(ctx.tracer, method, url, ctx.span, attempt);
+    // The attempt ends once the response interceptors accepted the response; a throwing one fails it instead
+    const ended = async (response: Response, wrappedResponse: ResponseWrapper) => {
+      const result = await intercept(() => this._runResI(wrappedResponse));
+      Tracing.end(span, response.status);
+      const length = Number(response.headers.get("content-length") ?? NaN);
+      const bytes = Number.isInteger(length) && length >= 0 ? length : undefined;
+      this._emit("request:end", { method, url, attempt, status: response.status, duration: Date.now() - started, bytes });
+      return result;
+    };
+    this._emit("request:start", { method, url, attempt });
 
     try {
+      if (useDeadline && !remaining) throw timeoutError();
+
       // Run request interceptors before making the request
       const requestConfig = this._config(url, fetchOptions);
-      const interceptorResult = await this._runReqI(requestConfig);
+      const traceHeaders = span && !this._hasHeader("traceparent") ? Tracing.headers(span) : undefined;
+      if (traceHeaders) requestConfig.headers = { ...requestConfig.headers, ...traceHeaders };
+      if (ctx.revalidate) requestConfig.headers = { ...requestConfig.headers, ...ResponseCache.validators(ctx.revalidate) };
+      if (ctx.range || ctx.headers) requestConfig.headers = { ...requestConfig.headers, ...ctx.headers, ...ctx.range };
+      const interceptorResult = await intercept(() => this._runReqI(requestConfig));
 
       // If interceptor returned a Response, short-circuit and wrap it
       if (interceptorResult instanceof Response) {
         const graphQLOptions = this._gql();
         const wrappedResponse = new ResponseWrapper(interceptorResult, this._url, this._method, graphQLOptions);
-        return await this._runResI(wrappedResponse);
+        wrappedResponse.setTimings(timings, Date.now());
+        return await ended(interceptorResult, wrappedResponse);
       }
 
       // Update fetchOptions with interceptor modifications
@@ -1499,10 +2459,21 @@ export abstract class BaseRequest {
 
       // Execute fetch (custom implementation if provided, global fetch otherwise)
       const fetchFn = this._fetch ?? globalThis.fetch;
+      const init = this._attemptInit(fetchOptions);
       let response: Response;
+      const sent = Date.now();
+      const queued = timings.queued;
       try {
-        response = await fetchFn(url, fetchOptions);
+        if (this._dedupe && (method === "GET" || method === "HEAD" || method === "OPTIONS")) {
+          // Trace headers differ on every attempt and would keep identical requests apart
+          const key = RequestDedupe.key(method, url, init.headers as Record<string, string>, this._dedupe.headers, Object.keys(traceHeaders ?? {}));
+          response = await RequestDedupe.fetch(key, signal => this._hedge(fetchFn, url, { ...init, signal }, ctx), init.signal ?? undefined);
+        } else {
+          response = await this._hedge(fetchFn, url, init, ctx);
+        }
       } catch (error) {
+        if (error instanceof RequestError) throw error;
+
         const errorObj = toError(error);
         const errorName = errorObj.name;
         const lowerMessage = errorObj.message.toLowerCase();
@@ -1513,8 +2484,8 @@ export abstract class BaseRequest {
         // Check if it's an abort error (DOMException in browsers, or AbortSignal abort)
         if (error instanceof DOMException && error.name === "AbortError") {
           // If it was our timeout that caused the abort, throw timeout error
-          if (isOurTimeout && this._opts.timeout) {
-            throw RequestError.timeout(url, method, this._opts.timeout);
+          if (isOurTimeout && timeoutMs) {
+            throw timeoutError();
           }
           // Otherwise it's a manual abort
           throw RequestError.abortError(url, method);
@@ -1524,8 +2495,8 @@ export abstract class BaseRequest {
         // This catches timeout errors that aren't thrown as AbortError
         const isTimeoutError = isOurTimeout || errorName === "TimeoutError" || lowerMessage.includes("timeout");
 
-        if (isTimeoutError && this._opts.timeout) {
-          throw RequestError.timeout(url, method, this._opts.timeout);
+        if (isTimeoutError && timeoutMs) {
+          throw timeoutError();
         }
 
         // For other network errors, let RequestError.networkError handle them
@@ -1533,27 +2504,59 @@ export abstract class BaseRequest {
         throw RequestError.networkError(url, method, errorObj);
       }
 
+      // Measure from when the request left the queue
+      const sentAt = sent + timings.queued - queued;
+      timings.headers = Math.max(0, Date.now() - sentAt);
+
       // Status 0 indicates the request failed before receiving a proper HTTP response
       // (e.g., CORS errors, network failures that don't throw). Treat as network error.
       if (response.status === 0) {
         throw RequestError.networkError(url, method, new Error("Failed with status 0 (network error or CORS blocked)"));
       }
 
-      if (!response.ok) {
+      if (response.status === 304 && ctx.revalidate && ctx.cacheKey) {
+        const wrappedResponse = new ResponseWrapper(await this._notModified(ctx.revalidate, ctx.cacheKey, response), url, method, this._gql());
+        wrappedResponse.fromCache = true;
+        wrappedResponse.setTimings(timings, sentAt);
+        return await ended(response, wrappedResponse);
+      }
+
+      // A 304 answering the caller's own conditional request is not an error
+      const notModified = response.status === 304 && (this._hasHeader("If-None-Match") || this._hasHeader("If-Modified-Since"));
+      if (!response.ok && !notModified) {
         // Capture the response body so it's available on the error object
         // (reads from a clone, so error.response remains readable)
         throw RequestError.fromResponse(response, url, method, await RequestError.captureBody(response));
       }
 
+      if (ctx.cacheKey) await this._toCache(ctx.cacheKey, response, interceptorResult.headers);
+      else if (this._respCache && method !== "GET" && method !== "HEAD" && method !== "OPTIONS") await this._invalidate(requestUrl);
+      if (this._resume && method === "GET" && !ctx.range) {
+        const resumeFrom = (offset: number, ifRange?: string) => this._resumeFrom(requestUrl, fetchOptions, ctx, offset, ifRange);
+        response = Resume.stream(response, resumeFrom, this._resume.maxResumes ?? 3, this._ctrl?.signal);
+      }
+      if (this._download && !ctx.range) response = Progress.download(response, this._download.onProgress, this._download.options);
+      if (this._listens("request:body")) {
+        const { status } = response;
+        const received = Date.now();
+        response = ResponseUtils.onBodyEnd(response, (bytes, complete) => {
+          if (complete) this._emit("request:body", { method, url, attempt, status, bytes, duration: Date.now() - received });
+        });
+      }
+
       const graphQLOptions = this._gql();
       const wrappedResponse = new ResponseWrapper(response, url, method, graphQLOptions);
-      return await this._runResI(wrappedResponse);
+      wrappedResponse.hedgeIndex = ctx.hedge;
+      wrappedResponse.setTimings(timings, sentAt);
+      return await ended(response, wrappedResponse);
     } catch (error) {
       // Convert to RequestError if needed
       const requestError = error instanceof RequestError ? error : RequestError.networkError(url, method, toError(error));
+      Tracing.fail(span, requestError);
+      this._emit("error", { method, url, attempt, error: requestError, status: requestError.status, duration: Date.now() - started });
 
       // Run error interceptors
-      const interceptorResult = await this._runErrI(requestError);
+      const interceptorResult = await intercept(() => this._runErrI(requestError));
 
       // If error interceptor returned a ResponseWrapper, recover from error
       if (interceptorResult instanceof ResponseWrapper) {
@@ -1,8 +1,11 @@
 import { RequestError, errorMessage } from "./RequestError.js";
 import { BaseRequest } from "./BaseRequest.js";
 import { BodyType } from "./enums.js";
-import type { Body, GraphQLOptions } from "./types.js";
+import type { Body, ChunkedUploadOptions, GraphQLOptions, ProgressCallback, ProgressOptions, StandardSchemaV1 } from "./types.js";
 import type { ResponseWrapper } from "./ResponseWrapper.js";
+import { Progress } from "./utils/Progress.js";
+import { ChunkedUpload } from "./utils/ChunkedUpload.js";
+import { Schema } from "./utils/Schema.js";
 
 /**
  * Base class for requests that can have a body (POST, PUT, PATCH)
@@ -10,7 +13,10 @@ import type { ResponseWrapper } from "./ResponseWrapper.js";
 export abstract class BodyRequest extends BaseRequest {
   protected _body?: Body;
   private _bodyType?: BodyType;
+  private _bodySchema?: StandardSchemaV1;
   private _gqlOpts: GraphQLOptions | undefined = undefined;
+  private _upload?: { onProgress: ProgressCallback; options: ProgressOptions };
+  private _chunked?: ChunkedUploadOptions;
 
   /**
    * Sets the request body. Automatically detects the body type and sets appropriate Content-Type header.
@@ -20,8 +26,12 @@ export abstract class BodyRequest extends BaseRequest {
    *   - A JSON-serializable object or array (automatically stringified)
    *   - A string (sets Content-Type to `text/plain` if not already set)
    *   - FormData, Blob, File, ArrayBuffer, TypedArray, URLSearchParams, or ReadableStream
+   * @param schema - Optional Standard Schema validator (Zod, Valibot, ArkType, ...) checking the body when the request is
+   *   sent. The validated, possibly transformed value is sent; when validation fails, the request isn't sent and a
+   *   RequestError is thrown with the validation issues in `error.issues`.
    * @returns The request instance for chaining
-   * @throws {RequestError} If the body is a JSON object that cannot be stringified
+   * @throws {RequestError} If the schema isn't a Standard Schema. Objects and arrays are validated and serialized when
+   *   the request is sent, after all builder calls, so a body that can't be stringified fails the request instead
    *
    * @example
    * ```typescript
@@ -45,10 +55,17 @@ export abstract class BodyRequest extends BaseRequest {
    * @example
    * // Blob
    * request.withBody(new Blob(['content'], { type: 'text/plain' }));
+   *
+   * @example
+   * // Validated JSON object
+   * const NewUser = z.object({ name: z.string().min(1), email: z.string().email() });
+   * request.withBody({ name: 'John', email: 'john@example.com' }, NewUser);
    * ```
    */
-  withBody(body: Body): this {
+  withBody(body: Body, schema?: StandardSchemaV1): this {
+    if (schema !== undefined && !Schema.is(schema)) throw new RequestError("Bad schema", this._url, this._method);
     this._body = body;
+    this._bodySchema = schema;
 
     // Set body type and validate
     if (typeof body === "string") {
@@ -69,13 +86,6 @@ export abstract class BodyRequest extends BaseRequest {
     ) {
       this._bodyType = BodyType.JSON;
       this._setCT("application/json");
-
-      // Validate JSON is stringifiable early
-      try {
-        JSON.stringify(body);
-      } catch (error) {
-        throw new RequestError(`Bad JSON: ${errorMessage(error)}`, this._url, this._method);
-      }
     } else {
       this._bodyType = BodyType.BINARY;
     }
@@ -150,19 +160,95 @@ export abstract class BodyRequest extends BaseRequest {
     }
 
     // Validate JSON is stringifiable early
-    try {
-      JSON.stringify(graphQLBody);
-    } catch (error) {
-      throw new RequestError(`Bad JSON: ${errorMessage(error)}`, this._url, this._method);
-    }
+    this._stringify(graphQLBody);
 
     this._body = graphQLBody;
+    this._bodySchema = undefined;
     this._bodyType = BodyType.JSON;
     this._setCT("application/json");
 
     return this;
   }
 
+  /**
+   * Reports upload progress while the body is sent.
+   * The body is streamed to fetch through a counting stream; `total` is known for strings, JSON, Blob/File,
+   * ArrayBuffer, TypedArray and URLSearchParams bodies, and reported once the upload completes for
+   * FormData and ReadableStream bodies. Every attempt, including retries, reports from 0.
+   * Streaming request bodies require `fetch` support for `duplex: "half"` (Node.js 18+, Chromium over HTTP/2).
+   *
+   * @param onProgress - Called with `{ loaded, total, percent }` as the body is read
+   * @param options - Progress options
+   * @param options.throttleMs - Minimum time between two reports; the final report is always made (default: 0)
+   * @returns The request instance for chaining
+   * @throws {RequestError} If throttleMs is negative
+   *
+   * @example
+   * ```typescript
+   * await create.post('/upload')
+   *   .withBody(file)
+   *   .withUploadProgress(({ percent }) => (progressBar.value = percent ?? 0))
+   *   .getJson();
+   * ```
+   */
+  withUploadProgress(onProgress: ProgressCallback, options: ProgressOptions = {}): this {
+    Progress.validate(options, this._url, this._method);
+    this._upload = { onProgress, options };
+    return this;
+  }
+
+  /**
+   * Uploads a Blob body in chunks, each sent as a request of its own with a `Content-Range` header
+   * (`bytes <first>-<last>/<size>`). A failed chunk is retried on its own with the `withRetries()` configuration,
+   * and timeouts and deadlines apply to each chunk. Chunks before the last one are sent up to `concurrency` at a
+   * time; the last chunk is sent once all others are stored, and its response is the response of the request.
+   * To resume an interrupted upload, pass the offset the server has stored (or a function fetching it).
+   * With `withUploadProgress()`, progress is reported for the whole upload as each chunk is stored.
+   *
+   * @param options - Chunked upload options
+   * @param options.chunkSize - Chunk size in bytes (default: 8 MiB)
+   * @param options.concurrency - Number of chunks sent at once (default: 1)
+   * @param options.offset - Offset to start from, or a function returning it (default: 0)
+   * @param options.onChunk - Called with `{ start, end, total, response }` when a chunk is stored
+   * @returns The request instance for chaining
+   * @throws {RequestError} If chunkSize or concurrency is not a positive integer, or offset is not a non-negative integer
+   *
+   * @example
+   * ```typescript
+   * await create.put(`/uploads/${id}`)
+   *   .withBody(file)
+   *   .withRetries(5)
+   *   .withChunkedUpload({ chunkSize: 16 * 1024 * 1024, concurrency: 3 })
+   *   .getJson();
+   * ```
+   *
+   * @example
+   * ```typescript
+   * // Resume from the offset the server reports
+   * await create.put(`/uploads/${id}`)
+   *   .withBody(file)
+   *   .withChunkedUpload({ offset: () => create.get(`/uploads/${id}/offset`).getJson<number>().then(Number) })
+   *   .getJson();
+   * ```
+   */
+  withChunkedUpload(options: ChunkedUploadOptions = {}): this {
+    ChunkedUpload.validate(options, this._url, this._method);
+    this._chunked = options;
+    return this;
+  }
+
+  /**
+   * Send the body through a counting stream when upload progress is requested
+   * Chunked uploads report progress per stored chunk instead.
+   */
+  protected _attemptInit(fetchOptions: RequestInit): RequestInit {
+    if (!this._upload || this._chunked || fetchOptions.body == null) return fetchOptions;
+    const { body, contentType } = Progress.upload(fetchOptions.body, this._upload.onProgress, this._upload.options);
+    const headers = { ...(fetchOptions.headers as Record<string, string>) };
+    if (contentType && !Object.keys(headers).some(name => name.toLowerCase() === "content-type")) headers["Content-Type"] = contentType;
+    return { ...fetchOptions, body, headers, duplex: "half" } as RequestInit;
+  }
+
   /**
    * Check if Content-Type header is already set (case-insensitive)
    */
@@ -175,6 +261,19 @@ export abstract class BodyRequest extends BaseRequest {
     return false;
   }
 
+  /**
+   * Get the Content-Type header if set (case-insensitive)
+   */
+  private _getCT(): string | undefined {
+    const headers = this._opts.headers;
+    if (typeof headers === "object" && headers !== null) {
+      const headersObj = headers as Record<string, string>;
+      const name = Object.keys(headersObj).find(header => header.toLowerCase() === "content-type");
+      return name && headersObj[name];
+    }
+    return undefined;
+  }
+
   private _setCT(contentType: string): void {
     if (!this._hasCT()) {
       this.withContentType(contentType);
@@ -194,18 +293,62 @@ export abstract class BodyRequest extends BaseRequest {
    * Overrides the base implementation to add body handling
    */
   async getResponse(): Promise<ResponseWrapper> {
-    if (this._body !== undefined) {
+    const body = this._bodySchema
+      ? await Schema.validate(this._bodySchema, this._body, (message, issues) => new RequestError(message, this._url, this._method, { issues }))
+      : this._body;
+
+    if (this._chunked) return this._sendChunks(this._chunked, body);
+
+    if (body !== undefined) {
       // Remove previous body if it exists
       if (this._opts.body) delete this._opts.body;
 
       // Process the body based on its type
       if (this._bodyType === BodyType.JSON) {
-        this._opts.body = JSON.stringify(this._body);
+        this._opts.body = await this._serialize(body);
       } else {
-        this._opts.body = this._body;
+        this._opts.body = body as BodyInit;
       }
     }
 
     return super.getResponse();
   }
+
+  /**
+   * Serialize an object or array body with the serializer registered for the Content-Type, or as JSON
+   * @throws {RequestError} If serialization fails
+   */
+  private async _serialize(body: unknown): Promise<BodyInit> {
+    const serialize = this._serializer(this._getCT())?.serialize;
+    if (!serialize) return this._stringify(body);
+    try {
+      return await serialize(body);
+    } catch (error) {
+      throw new RequestError(`Serialize: ${errorMessage(error)}`, this._url, this._method);
+    }
+  }
+
+  /**
+   * Serialize a JSON body
+   * @throws {RequestError} If the value cannot be stringified
+   */
+  private _stringify(body: unknown): string {
+    try {
+      return JSON.stringify(body);
+    } catch (error) {
+      throw new RequestError(`Bad JSON: ${errorMessage(error)}`, this._url, this._method);
+    }
+  }
+
+  /**
+   * Upload the Blob body in chunks (see `withChunkedUpload()`)
+   * @throws {RequestError} If the body is not a Blob
+   */
+  private _sendChunks(options: ChunkedUploadOptions, blob: unknown): Promise<ResponseWrapper> {
+    if (!(blob instanceof Blob)) throw new RequestError("Chunked upload needs a Blob body", this._url, this._method);
+
+    const upload = this._upload;
+    const onStored = (stored: number) => upload?.onProgress({ loaded: stored, total: blob.size, percent: blob.size ? (stored / blob.size) * 100 : 100 });
+    return ChunkedUpload.send(blob, options, (body, contentRange) => this._dispatch(body, { "Content-Range": contentRange }), onStored, this._url, this._method);
+  }
 }
@@ -1,3 +1,5 @@
+import type { RequestTimings, StandardSchemaIssue } from "./types.js";
+
 /**
  * Extract a message from an unknown thrown value
  * @internal
@@ -24,9 +26,12 @@ export const toError = (e: unknown): Error => (e instanceof Error ? e : new Erro
  *    console.log(`Method: ${error.method}`);
  *    console.log(`Status: ${error.status}`);
  *    console.log(`Body: ${error.body}`); // Raw response body (if available)
+ *    console.log(error.issues); // Schema validation issues (if the response failed validation)
  *    console.log(error.getJson()); // Body parsed as JSON (or undefined)
  *    console.log(`Is timeout: ${error.isTimeout}`);
  *    console.log(`Is aborted: ${error.isAborted}`);
+ *    console.log(`Is deadline: ${error.isDeadline}`);
+ *    console.log(`Is circuit open: ${error.isCircuitOpen}`);
  * }
  * ```
  */
@@ -41,6 +46,8 @@ export class RequestError extends Error {
    * or when the body could not be read.
    */
   public readonly body?: string;
+  /** The validation issues when the response data failed schema validation (see `withResponseSchema()`) */
+  public readonly issues?: ReadonlyArray<StandardSchemaIssue>;
   /** The URL that was requested */
   public readonly url: string;
   /** The HTTP method that was used (e.g., 'GET', 'POST') */
@@ -49,6 +56,12 @@ export class RequestError extends Error {
   public readonly isTimeout: boolean;
   /** Whether the request was aborted (cancelled) */
   public readonly isAborted: boolean;
+  /** Whether the overall deadline set via `withDeadline()` was exceeded (also flagged as `isTimeout`) */
+  public readonly isDeadline: boolean;
+  /** Whether the request was rejected without being sent because the origin's circuit breaker is open */
+  public readonly isCircuitOpen: boolean;
+  /** Timing breakdown of the failed request, set once it has given up */
+  public timings?: RequestTimings;
 
   /** Cached result of parsing `body` as JSON (lazily populated by getJson) */
   private _parsed?: unknown;
@@ -63,8 +76,11 @@ export class RequestError extends Error {
    * @param options.status - HTTP status code if available
    * @param options.response - The Response object if available
    * @param options.body - The raw response body as text, if available
+   * @param options.issues - Schema validation issues, if the response failed validation
    * @param options.isTimeout - Whether this was a timeout error
    * @param options.isAborted - Whether the request was aborted
+   * @param options.isDeadline - Whether the overall deadline was exceeded
+   * @param options.isCircuitOpen - Whether the circuit breaker rejected the request
    * @param options.cause - The underlying error that caused this error
    */
   constructor(
@@ -75,8 +91,11 @@ export class RequestError extends Error {
       status?: number;
       response?: Response;
       body?: string;
+      issues?: ReadonlyArray<StandardSchemaIssue>;
       isTimeout?: boolean;
       isAborted?: boolean;
+      isDeadline?: boolean;
+      isCircuitOpen?: boolean;
       cause?: Error;
     } = {}
   ) {
@@ -87,8 +106,11 @@ export class RequestError extends Error {
     this.status = options.status;
     this.response = options.response;
     this.body = options.body;
+    this.issues = options.issues;
     this.isTimeout = !!options.isTimeout;
     this.isAborted = !!options.isAborted;
+    this.isDeadline = !!options.isDeadline;
+    this.isCircuitOpen = !!options.isCircuitOpen;
 
     // For better stack traces in modern environments
     if (Error.captureStackTrace) {
@@ -173,6 +195,42 @@ export class RequestError extends Error {
     });
   }
 
+  /**
+   * Creates a RequestError for an exceeded overall deadline (see `withDeadline()`).
+   *
+   * @param url - The URL that was requested
+   * @param method - The HTTP method that was used
+   * @param deadlineMs - The deadline duration in milliseconds
+   * @returns A RequestError with both `isDeadline` and `isTimeout` set to `true`
+   *
+   * @example
+   * ```typescript
+   * throw RequestError.deadline('/api/data', 'GET', 10000);
+   * ```
+   */
+  static deadline(url: string, method: string, deadlineMs: number): RequestError {
+    return new RequestError(`Deadline:${deadlineMs}`, url, method, {
+      isTimeout: true,
+      isDeadline: true,
+    });
+  }
+
+  /**
+   * Creates a RequestError for a request rejected by an open circuit breaker (see `withCircuitBreaker()`).
+   *
+   * @param url - The URL that was requested
+   * @param method - The HTTP method that was used
+   * @returns A RequestError with `isCircuitOpen` set to `true`
+   *
+   * @example
+   * ```typescript
+   * throw RequestError.circuitOpen('/api/data', 'GET');
+   * ```
+   */
+  static circuitOpen(url: string, method: string): RequestError {
+    return new RequestError("Circuit open", url, method, { isCircuitOpen: true });
+  }
+
   /**
    * Creates a RequestError from an HTTP error response.
    * Used when the server returns a non-2xx status code.
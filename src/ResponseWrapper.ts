@@ -1,5 +1,10 @@
 import { RequestError, errorMessage, toError } from "./RequestError.js";
-import type { GraphQLOptions } from "./types.js";
+import type { GraphQLOptions, InferSchemaOutput, RequestTimings, ServerSentEvent, StandardSchemaIssue, StandardSchemaV1 } from "./types.js";
+import { EventStream } from "./utils/EventStream.js";
+import { JsonStream } from "./utils/JsonStream.js";
+import { Schema } from "./utils/Schema.js";
+import { Serializers } from "./utils/Serializers.js";
+import { Config } from "./utils/Config.js";
 
 /**
  * Wrapper for HTTP responses with methods to transform the response data.
@@ -20,8 +25,19 @@ export class ResponseWrapper {
   public readonly url?: string;
   /** The HTTP method that was used (if available) */
   public readonly method?: string;
+  /** Whether the response was served from the response cache (see `withResponseCache()`), including after a 304 revalidation */
+  public fromCache: boolean = false;
+  /** Whether the cached response was past its expiry (stale-while-revalidate or stale-if-error) */
+  public stale: boolean = false;
+  /** Which hedged request produced the response (0 for the original, 1 for the first copy, ...); undefined without `withHedging()` */
+  public hedgeIndex?: number;
+  /** Timing breakdown of the request; undefined for responses served from the response cache without a request */
+  public timings?: RequestTimings;
   private readonly _res: Response;
+  private _sentAt?: number;
   private _gqlOpts?: GraphQLOptions;
+  private _schema?: StandardSchemaV1;
+  private _serializers?: Serializers;
 
   // Cache the body as the last used method
   private _blob?: Blob;
@@ -76,19 +92,59 @@ export class ResponseWrapper {
     return this._res;
   }
 
+  /**
+   * Attach the request's timings, completed with the body read time once the body is read
+   * @param timings The request's timings
+   * @param sentAt When the attempt that produced this response was sent
+   * @internal
+   */
+  setTimings(timings: RequestTimings, sentAt: number): void {
+    this.timings = timings;
+    this._sentAt = sentAt;
+  }
+
+  /**
+   * Validate the data returned by `getJson()` and `getData()` with a schema (see `withResponseSchema()`)
+   * @param schema The Standard Schema validator
+   * @internal
+   */
+  setSchema(schema: StandardSchemaV1): void {
+    this._schema = schema;
+  }
+
+  /**
+   * Use the body serializers of an API instance before the global ones in `getParsed()`
+   * @param serializers The API instance's serializers
+   * @internal
+   */
+  setSerializers(serializers: Serializers): void {
+    this._serializers = serializers;
+  }
+
   /**
    * Create a RequestError carrying this response's context
    * @param message - The error message
    * @param withBody - Whether to attach the cached body text to the error
+   * @param issues - Schema validation issues to attach to the error
    */
-  private _err(message: string, withBody?: boolean): RequestError {
+  private _err(message: string, withBody?: boolean, issues?: ReadonlyArray<StandardSchemaIssue>): RequestError {
     return new RequestError(message, this.url || "", this.method || "", {
       status: this._res.status,
       response: this._res,
       body: withBody ? this._text : undefined,
+      issues,
     });
   }
 
+  /**
+   * Validate parsed data with a schema
+   * @returns The validated (and possibly transformed) data
+   * @throws RequestError with the issues if validation fails
+   */
+  private _validate<Output>(schema: StandardSchemaV1<unknown, Output>, data: unknown): Promise<Output> {
+    return Schema.validate(schema, data, (message, issues) => this._err(message, true, issues));
+  }
+
   /**
    * Read the response body via the given reader, wrapping failures in a RequestError
    * @throws RequestError if the body has already been consumed or reading fails
@@ -96,12 +152,21 @@ export class ResponseWrapper {
   private async _read<T>(reader: () => Promise<T>): Promise<T> {
     this._checkUsed();
     try {
-      return await reader();
+      const result = await reader();
+      this._bodyRead();
+      return result;
     } catch (e) {
       throw this._err(`Read: ${errorMessage(e)}`);
     }
   }
 
+  /**
+   * Record the body read time in the request's timings
+   */
+  private _bodyRead(): void {
+    if (this.timings && this._sentAt !== undefined) this.timings.body = Date.now() - this._sentAt;
+  }
+
   /**
    * Check if the response body has already been consumed and throw an error if so
    * @throws RequestError if the body has already been consumed
@@ -171,6 +236,58 @@ export class ResponseWrapper {
    * }
    */
   async getJson<T = unknown>(): Promise<T | null> {
+    return this._checked<T>(await this._parse<T>());
+  }
+
+  /**
+   * Parse the response body according to its Content-Type.
+   * A `parse` serializer registered for the content type (with `createApi().withSerializer()` or
+   * `Config.setSerializer()`) receives the body bytes. Without one, JSON responses (`application/json`, `+json`
+   * types, or no Content-Type) are parsed with `getJson()` and `text/*` responses read with `getText()`.
+   * The result is validated with the schema set with `withResponseSchema()`, if any.
+   *
+   * @returns The parsed data, or `null` for empty responses
+   * @throws {RequestError} When reading or parsing fails, or no parser handles the content type (`No parser: image/png`)
+   *
+   * @example
+   * Config.getInstance().setSerializer('application/cbor', { parse: body => cbor.decode(body) });
+   * const data = await response.getParsed<Report>();
+   */
+  async getParsed<T = unknown>(): Promise<T | null> {
+    const contentType = this._res.headers.get("content-type") ?? "";
+    const parse = (this._serializers?.get(contentType) ?? Config.getInstance().getSerializers().get(contentType))?.parse;
+
+    if (!parse) {
+      const type = Serializers.mediaType(contentType);
+      if (!type || Serializers.isJson(type)) return this.getJson<T>();
+      if (type.startsWith("text/")) return this._checked<T>((await this.getText()) as T);
+      throw this._err(`No parser: ${type}`);
+    }
+
+    if (this._res.status === 204 || this._res.headers.get("content-length") === "0") return this._checked<T>(null);
+    const body = new Uint8Array(await this.getArrayBuffer());
+    if (!body.length) return this._checked<T>(null);
+
+    let data: T;
+    try {
+      data = (await parse(body, contentType)) as T;
+    } catch (error) {
+      throw this._err(`Parse: ${errorMessage(error)}`);
+    }
+    return this._checked<T>(data);
+  }
+
+  /**
+   * Validate parsed data with the schema set with `withResponseSchema()`, if any
+   */
+  private async _checked<T>(data: T | null): Promise<T | null> {
+    return this._schema ? ((await this._validate(this._schema, data)) as T | null) : data;
+  }
+
+  /**
+   * Parse the response body as JSON, caching the result (see `getJson()`)
+   */
+  private async _parse<T>(): Promise<T | null> {
     if (this._json !== undefined) return this._json as T | null;
 
     // Handle empty responses: 204 No Content or content-length: 0
@@ -186,6 +303,7 @@ export class ResponseWrapper {
       // Read as text first to handle empty bodies and cache for getText()
       const text = await this._res.text();
       this._text = text;
+      this._bodyRead();
 
       // Handle empty or whitespace-only responses
       if (!text || text.trim() === "") {
@@ -287,6 +405,70 @@ export class ResponseWrapper {
     return this._res.body;
   }
 
+  /**
+   * Read the response body as Server-Sent Events (`text/event-stream`)
+   * Note: This consumes the response body. Unlike `request.getEventStream()`, it doesn't reconnect.
+   *
+   * @returns An async iterable of `{ id, event, data, retry }` events; leaving the loop cancels the body
+   * @throws {RequestError} When the response isn't an event stream, the body has already been consumed, or reading fails
+   *
+   * @example
+   * for await (const { event, data } of response.getEventStream()) {
+   *   console.log(event, data);
+   * }
+   */
+  getEventStream(): AsyncGenerator<ServerSentEvent, void, undefined> {
+    return EventStream.read(this);
+  }
+
+  /**
+   * Read the response body as newline-delimited JSON (NDJSON / JSON Lines), yielding each value as its line arrives
+   * Note: This consumes the response body. Blank lines are skipped; leaving the loop cancels the body.
+   *
+   * @returns An async iterable of the parsed lines
+   * @throws {RequestError} When the body has already been consumed, reading fails, or a line isn't valid JSON (the message gives the line number)
+   *
+   * @example
+   * for await (const entry of response.getJsonStream<LogEntry>()) {
+   *   console.log(entry.level, entry.message);
+   * }
+   */
+  getJsonStream<T = unknown>(): AsyncGenerator<T, void, undefined> {
+    return JsonStream.lines<T>(this);
+  }
+
+  /**
+   * Read the elements of a JSON array one by one as the body arrives, without holding the whole array in memory
+   * Note: This consumes the response body. Reading stops once the array closes; the rest of the document isn't read.
+   *
+   * @param path - Dot-separated location of a nested array, e.g. `data.items` (default: the root value)
+   * @returns An async iterable of the parsed elements; leaving the loop cancels the body
+   * @throws {RequestError} When the body has already been consumed, reading fails, there is no array at `path`, or an element isn't valid JSON
+   *
+   * @example
+   * // { "data": { "items": [{ ... }, { ... }] } }
+   * for await (const item of response.getJsonArrayStream<Item>('data.items')) {
+   *   await save(item);
+   * }
+   */
+  getJsonArrayStream<T = unknown>(path?: string): AsyncGenerator<T, void, undefined> {
+    return JsonStream.array<T>(this, path);
+  }
+
+  /**
+   * Parse the response body as JSON and validate it with a schema, returning the typed, validated data
+   * Accepts any validator implementing Standard Schema (Zod, Valibot, ArkType, ...). Empty responses are
+   * validated as `null`. The schema replaces one set with `withResponseSchema()`.
+   *
+   * @param schema - The Standard Schema validator
+   * @returns A promise that resolves to the validated (and possibly transformed) data
+   * @throws {RequestError} When JSON parsing fails, or validation fails (with the issues in `error.issues`)
+   *
+   * @example
+   * const User = z.object({ id: z.number(), name: z.string() });
+   * const user = await response.getData(User); // { id: number; name: string }
+   */
+  getData<S extends StandardSchemaV1>(schema: S): Promise<InferSchemaOutput<S>>;
   /**
    * Extract specific data using a selector function
    * If no selector is provided, returns the full JSON response.
@@ -319,7 +501,10 @@ export class ResponseWrapper {
    *   }
    * }
    */
-  async getData<T = unknown, R = T>(selector?: (data: T | null) => R): Promise<T | R | null> {
+  getData<T = unknown, R = T>(selector?: (data: T | null) => R): Promise<T | R | null>;
+  async getData<T = unknown, R = T>(selector?: ((data: T | null) => R) | StandardSchemaV1): Promise<unknown> {
+    if (Schema.is(selector)) return this._validate(selector, await this._parse());
+
     try {
       const data = await this.getJson<T>();
 
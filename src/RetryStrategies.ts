@@ -0,0 +1,111 @@
+import type { BackoffOptions, ExponentialBackoffOptions, RetryDelayFunction } from "./types.js";
+
+/**
+ * Built-in backoff strategies that plug into `RetryConfig.delay`.
+ * Every strategy returns a `RetryDelayFunction`, so it can be passed directly to `withRetries()`.
+ *
+ * @example
+ * ```typescript
+ * import create, { RetryStrategies } from 'create-request';
+ *
+ * await create.get('/api/data')
+ *   .withRetries({ attempts: 5, delay: RetryStrategies.exponential({ base: 200, max: 5000, jitter: 'full' }) })
+ *   .getJson();
+ * ```
+ */
+export class RetryStrategies {
+  /**
+   * Exponential backoff: `base * factor^(attempt - 1)`, capped at `max`, with optional jitter.
+   *
+   * @param options - Backoff options
+   * @returns A delay function for `RetryConfig.delay`
+   *
+   * @example
+   * ```typescript
+   * // 1s, 2s, 4s, 8s, ... capped at 30s
+   * request.withRetries({ attempts: 5, delay: RetryStrategies.exponential() });
+   * ```
+   */
+  static exponential(options: ExponentialBackoffOptions = {}): RetryDelayFunction {
+    const { base = 1000, max = 30000, factor = 2, jitter = "none", random = Math.random } = options;
+    return ({ attempt }) => {
+      const delay = Math.min(max, base * Math.pow(factor, attempt - 1));
+      if (jitter === "full") return random() * delay;
+      if (jitter === "equal") return delay / 2 + (random() * delay) / 2;
+      return delay;
+    };
+  }
+
+  /**
+   * Exponential backoff with "full jitter": a random delay between 0 and the exponential delay.
+   * Spreads retries from many clients evenly, which avoids synchronized retry storms.
+   *
+   * @param options - Backoff options
+   * @returns A delay function for `RetryConfig.delay`
+   *
+   * @example
+   * ```typescript
+   * request.withRetries({ attempts: 5, delay: RetryStrategies.fullJitter({ base: 100, max: 5000 }) });
+   * ```
+   */
+  static fullJitter(options: BackoffOptions = {}): RetryDelayFunction {
+    return RetryStrategies.exponential({ ...options, jitter: "full" });
+  }
+
+  /**
+   * "Decorrelated jitter" backoff: each delay is random between `base` and three times the previous delay, capped at `max`.
+   * The previous delay comes from the retry context (`previousDelay`), so one function can serve many requests at once.
+   *
+   * @param options - Backoff options
+   * @returns A delay function for `RetryConfig.delay`
+   *
+   * @example
+   * ```typescript
+   * request.withRetries({ attempts: 5, delay: RetryStrategies.decorrelatedJitter({ base: 100, max: 10000 }) });
+   * ```
+   */
+  static decorrelatedJitter(options: BackoffOptions = {}): RetryDelayFunction {
+    const { base = 1000, max = 30000, random = Math.random } = options;
+    return ({ previousDelay = base }) => Math.min(max, base + random() * (Math.max(previousDelay, base) * 3 - base));
+  }
+
+  /**
+   * Linear backoff: `base * attempt`, capped at `max`.
+   *
+   * @param options - Backoff options (`random` is unused)
+   * @returns A delay function for `RetryConfig.delay`
+   *
+   * @example
+   * ```typescript
+   * // 500ms, 1s, 1.5s, ...
+   * request.withRetries({ attempts: 3, delay: RetryStrategies.linear({ base: 500 }) });
+   * ```
+   */
+  static linear(options: BackoffOptions = {}): RetryDelayFunction {
+    const { base = 1000, max = 30000 } = options;
+    return ({ attempt }) => Math.min(max, base * attempt);
+  }
+
+  /**
+   * Creates a seeded pseudo-random number generator (mulberry32) returning values in `[0, 1)`.
+   * Pass it as the `random` option to get reproducible jittered delays, e.g. in tests.
+   *
+   * @param seed - Any integer seed
+   * @returns A deterministic random number generator
+   *
+   * @example
+   * ```typescript
+   * const delay = RetryStrategies.fullJitter({ random: RetryStrategies.seeded(42) });
+   * ```
+   */
+  static seeded(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+}
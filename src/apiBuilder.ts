@@ -1,6 +1,32 @@
 import { GetRequest, PostRequest, PutRequest, DeleteRequest, PatchRequest, HeadRequest, OptionsRequest } from "./requestMethods.js";
 import type { BaseRequest } from "./BaseRequest.js";
-import type { RetryConfig, RetryCallback, CookiesRecord, CookieOptions, FetchFunction, RequestInterceptor, ResponseInterceptor, ErrorInterceptor } from "./types.js";
+import { RequestError } from "./RequestError.js";
+import { RequestQueue } from "./utils/RequestQueue.js";
+import { RateLimiter } from "./utils/RateLimiter.js";
+import { CircuitBreaker } from "./utils/CircuitBreaker.js";
+import { RequestEvents } from "./utils/RequestEvents.js";
+import { Serializers } from "./utils/Serializers.js";
+import type {
+  RetryConfig,
+  RetryCallback,
+  CookiesRecord,
+  CookieOptions,
+  FetchFunction,
+  RequestInterceptor,
+  ResponseInterceptor,
+  ErrorInterceptor,
+  ResponseCacheOptions,
+  StaleWhileRevalidateOptions,
+  DedupeOptions,
+  HedgingOptions,
+  ConcurrencyOptions,
+  RateLimitOptions,
+  CircuitBreakerOptions,
+  RequestEventName,
+  RequestEventHandler,
+  Tracer,
+  BodySerializer,
+} from "./types.js";
 import type { CredentialsPolicy, RedirectMode, RequestPriority, ReferrerPolicy, RequestMode } from "./enums.js";
 
 /**
@@ -62,22 +88,40 @@ type ApiBuilder = {
    */
   withTimeout(timeout: number): ApiBuilder;
 
+  /**
+   * Set an overall deadline covering all retry attempts and the delays between them.
+   * Unlike `withTimeout()`, which applies per attempt, the deadline bounds the total wall time of each request.
+   *
+   * @param deadline - The deadline in milliseconds (must be a positive finite number)
+   * @returns The API builder instance for chaining
+   * @throws {RequestError} If deadline is not a positive finite number
+   *
+   * @example
+   * ```typescript
+   * api.withTimeout(2000).withRetries(5).withDeadline(10000); // Give up after 10 seconds in total
+   * ```
+   */
+  withDeadline(deadline: number): ApiBuilder;
+
   /**
    * Configure automatic retry behavior for failed requests.
-   * By default, retries only network errors. For more control, pass a RetryConfig object.
+   * By default, retries network errors, timeouts, and 408, 429 and 5xx responses. Aborted requests are never retried.
+   * For more control, pass a RetryConfig object.
    *
    * @param retries - Either:
-   *   - A number: number of retry attempts (fixed delay of 1000ms between retries)
-   *   - A RetryConfig object with optional properties:
-   *     - maxRetries: number of retry attempts
-   *     - delay: a function (attempt, error?) => number that returns delay in ms
-   *     - retryOn: array of status codes to retry on (in addition to network errors)
-   *     - shouldRetry: custom function to decide if a retry should happen
+   *   - A number: number of retry attempts (no delay between retries)
+   *   - A RetryConfig object with properties:
+   *     - attempts: number of retry attempts
+   *     - delay: a fixed delay in ms, or a function ({ attempt, error }) => number
+   *     - retryOn: array of status codes to retry on (network errors and timeouts are always retried)
+   *     - shouldRetry: custom predicate ({ attempt, error }) => boolean deciding if a retry should happen
+   *     - retryAfterMode: "override" or "cap" to let Retry-After / RateLimit-Reset on 429/503 responses drive the delay
+   *     - maxDelay: upper bound in ms for any delay between retries
    * @returns The API builder instance for chaining
    *
    * @example
    * ```typescript
-   * // Simple retry with fixed delay
+   * // Simple retry without delay
    * api.withRetries(3);
    * ```
    *
@@ -85,8 +129,8 @@ type ApiBuilder = {
    * ```typescript
    * // Exponential backoff
    * api.withRetries({
-   *   maxRetries: 3,
-   *   delay: (attempt) => Math.pow(2, attempt) * 1000
+   *   attempts: 3,
+   *   delay: ({ attempt }) => Math.pow(2, attempt) * 1000
    * });
    * ```
    *
@@ -94,7 +138,7 @@ type ApiBuilder = {
    * ```typescript
    * // Retry specific status codes
    * api.withRetries({
-   *   maxRetries: 2,
+   *   attempts: 2,
    *   retryOn: [408, 429, 500, 502, 503, 504]
    * });
    * ```
@@ -103,12 +147,12 @@ type ApiBuilder = {
    * ```typescript
    * // Custom retry logic with error-aware delay
    * api.withRetries({
-   *   maxRetries: 3,
-   *   delay: (attempt, error) => {
-   *     if (error?.status === 429) return 5000; // Rate limited
+   *   attempts: 3,
+   *   delay: ({ attempt, error }) => {
+   *     if (error.status === 429) return 5000; // Rate limited
    *     return attempt * 1000; // Linear backoff
    *   },
-   *   shouldRetry: (error) => error.status === 429 || error.status >= 500
+   *   shouldRetry: ({ error }) => error.status === 429 || (error.status ?? 0) >= 500
    * });
    * ```
    */
@@ -116,16 +160,16 @@ type ApiBuilder = {
 
   /**
    * Register a callback to be invoked before each retry attempt.
-   * The callback receives the attempt number (1-indexed), the error that caused the retry,
-   * and the delay before the next retry.
+   * The callback receives the attempt number (1-indexed), the error that caused the retry, and `retryAfter`:
+   * the wait in milliseconds the server requested with `Retry-After` or `RateLimit-Reset` on a 429/503 response, if any.
    *
-   * @param callback - A function that receives (attempt: number, error: RequestError, delay: number)
+   * @param callback - A function that receives `{ attempt, error, retryAfter }`
    * @returns The API builder instance for chaining
    *
    * @example
    * ```typescript
-   * api.onRetry((attempt, error, delay) => {
-   *   console.log(`Retry attempt ${attempt} after ${delay}ms due to:`, error.message);
+   * api.onRetry(({ attempt, error, retryAfter }) => {
+   *   console.log(`Retry attempt ${attempt} due to:`, error.message, retryAfter !== undefined ? `(server asked to wait ${retryAfter}ms)` : "");
    * });
    * ```
    */
@@ -299,6 +343,247 @@ type ApiBuilder = {
    */
   withFetch(fetchFn: FetchFunction): ApiBuilder;
 
+  /**
+   * Enables the response cache for all GET requests created through this API instance.
+   * Fresh responses are served from the store without touching the network, following
+   * `Cache-Control` (max-age, no-store), `Expires` and `Vary` semantics.
+   *
+   * @param options - Cache options:
+   *   - store: where responses are kept (default: a shared in-memory LRU store)
+   *   - ttl: lifetime in ms for responses with only a validator (`ETag` or `Last-Modified`) and no `max-age` or `Expires` (default: 60000)
+   * @returns The API builder instance for chaining
+   * @throws {RequestError} If ttl is not a non-negative number
+   *
+   * @example
+   * ```typescript
+   * const api = createApi()
+   *   .withBaseURL('https://api.example.com')
+   *   .withResponseCache({ store: new MemoryCacheStore(500), ttl: 30000 });
+   *
+   * const first = await api.get('/users').getResponse(); // network
+   * const second = await api.get('/users').getResponse(); // second.fromCache === true
+   * ```
+   */
+  withResponseCache(options?: ResponseCacheOptions): ApiBuilder;
+
+  /**
+   * Serves stale cached GET responses immediately while refreshing them in the background,
+   * for all requests created through this API instance. Enables the response cache if needed.
+   *
+   * @param options - Stale-while-revalidate options:
+   *   - maxStale: how long in ms past expiry a response may be served (default: the `stale-while-revalidate` directive, or unlimited)
+   *   - onUpdate: called with the new response when a background refresh brings changed data
+   *   - onError: called when a background refresh fails
+   * @returns The API builder instance for chaining
+   * @throws {RequestError} If maxStale is not a non-negative number
+   *
+   * @example
+   * ```typescript
+   * const api = createApi()
+   *   .withBaseURL('https://api.example.com')
+   *   .withStaleWhileRevalidate({ maxStale: 300000, onUpdate: response => refresh(response.url) });
+   * ```
+   */
+  withStaleWhileRevalidate(options?: StaleWhileRevalidateOptions): ApiBuilder;
+
+  /**
+   * Shares one network call between identical GET, HEAD and OPTIONS requests in flight at the same time,
+   * for all requests created through this API instance. Identical means the same method, resolved URL
+   * (including query parameters) and headers. Every caller gets an independently readable response.
+   *
+   * @param options - Dedupe options:
+   *   - headers: header names that distinguish requests (default: all headers)
+   * @returns The API builder instance for chaining
+   * @throws {RequestError} If headers is not an array of strings
+   *
+   * @example
+   * ```typescript
+   * const api = createApi().withBaseURL('https://api.example.com').withDedupe();
+   *
+   * // One network call, two independent results
+   * const [me, alsoMe] = await Promise.all([api.get('/me').getJson(), api.get('/me').getJson()]);
+   * ```
+   */
+  withDedupe(options?: DedupeOptions): ApiBuilder;
+
+  /**
+   * Hedges GET, HEAD and OPTIONS requests created through this API instance: when no response arrived
+   * within `delayMs`, a copy of the request is sent (up to `maxHedges` copies) and the first good response wins.
+   * The other requests are aborted. Use this for idempotent reads against replicated services.
+   *
+   * @param options - Hedging options:
+   *   - delayMs: how long to wait for a response before sending the next copy
+   *   - maxHedges: maximum number of extra copies (default: 1)
+   * @returns The API builder instance for chaining
+   * @throws {RequestError} If delayMs is negative or maxHedges is not a positive integer
+   *
+   * @example
+   * ```typescript
+   * const api = createApi()
+   *   .withBaseURL('https://replicated.example.com')
+   *   .withHedging({ delayMs: 50 });
+   * ```
+   */
+  withHedging(options: HedgingOptions): ApiBuilder;
+
+  /**
+   * Traces requests created through this API instance with the given tracer, instead of the global one.
+   * Each request gets a span and each attempt a child span, whose trace context is sent in the
+   * `traceparent` and `tracestate` headers.
+   *
+   * @param tracer - A tracer implementing `startSpan(name, { attributes, parent })`
+   * @returns The API builder instance for chaining
+   *
+   * @example
+   * ```typescript
+   * const api = createApi().withBaseURL('https://api.example.com').withTracing(tracer);
+   * ```
+   */
+  withTracing(tracer: Tracer): ApiBuilder;
+
+  /**
+   * Registers a serializer for a content type, used by requests created through this API instance
+   * before the global ones (see `Config.setSerializer()`). `serialize` converts object and array bodies
+   * sent with that Content-Type (instead of `JSON.stringify`), and `parse` reads responses of that
+   * Content-Type in `getParsed()`.
+   *
+   * @param contentType - The content type, e.g. `application/cbor`
+   * @param serializer - The serializer
+   * @returns The API builder instance for chaining
+   * @throws {RequestError} If the content type is empty or the serializer has neither `serialize` nor `parse`
+   *
+   * @example
+   * ```typescript
+   * const api = createApi()
+   *   .withBaseURL('https://api.example.com')
+   *   .withSerializer('application/cbor', { serialize: value => cbor.encode(value), parse: body => cbor.decode(body) })
+   *   .withContentType('application/cbor');
+   *
+   * await api.post('/events').withBody({ type: 'click' }).getResponse(); // Sent as CBOR
+   * const events = await api.get('/events').getParsed<Event[]>(); // Decoded from CBOR
+   * ```
+   */
+  withSerializer(contentType: string, serializer: BodySerializer): ApiBuilder;
+
+  /**
+   * Limits how many requests created through this API instance are in flight at once.
+   * Further requests wait in a queue ordered by priority (`high`, `auto`, `low`), first come first served
+   * within a priority. A slot is held until the response body is read to the end, fails or is cancelled, so
+   * cancel the body of a response you don't read (`response.raw.body?.cancel()`). Aborting a queued request
+   * (or hitting its timeout) removes it from the queue without sending anything.
+   *
+   * @param limit - Maximum number of concurrent requests (a positive integer)
+   * @param options - Concurrency options:
+   *   - perOrigin: apply the limit to each origin separately (default: false)
+   * @returns The API builder instance for chaining
+   * @throws {RequestError} If limit is not a positive integer
+   *
+   * @example
+   * ```typescript
+   * const api = createApi()
+   *   .withBaseURL('https://api.example.com')
+   *   .withConcurrency(6);
+   *
+   * // At most 6 requests hit the server at a time; the urgent one jumps the queue
+   * await Promise.all(ids.map(id => api.get(`/items/${id}`).getJson()));
+   * await api.get('/urgent').withPriority('high').getJson();
+   * ```
+   */
+  withConcurrency(limit: number, options?: ConcurrencyOptions): ApiBuilder;
+
+  /**
+   * Rate limits requests created through this API instance on the client (token bucket).
+   * Requests over the limit wait before dispatch instead of running into 429 responses.
+   * Every attempt counts, including retries, and aborting a waiting request (or hitting its timeout)
+   * gives up its place without sending anything.
+   *
+   * @param options - Rate limit options:
+   *   - requests: number of requests allowed per `perMs`
+   *   - perMs: window length in ms (default: 1000)
+   *   - burst: maximum requests sent at once after an idle period (default: `requests`)
+   *   - adaptive: follow `RateLimit-Remaining` / `RateLimit-Reset` response headers, pausing until the reset
+   *     when none remain (default: true)
+   * @returns The API builder instance for chaining
+   * @throws {RequestError} If requests, perMs or burst is not a positive number
+   *
+   * @example
+   * ```typescript
+   * // Partner API allows 5 requests per second
+   * const api = createApi()
+   *   .withBaseURL('https://partner.example.com')
+   *   .withRateLimit({ requests: 5, perMs: 1000 });
+   * ```
+   */
+  withRateLimit(options: RateLimitOptions): ApiBuilder;
+
+  /**
+   * Adds a circuit breaker, tracked per origin, to requests created through this API instance.
+   * After `failureThreshold` consecutive failures (network errors, timeouts, 5xx responses) the origin's
+   * circuit opens and requests fail fast with a RequestError flagged `isCircuitOpen`, without being sent or retried.
+   * After `resetTimeout`, up to `halfOpenMax` trial requests are let through: a success closes the circuit,
+   * a failure opens it again.
+   *
+   * @param options - Circuit breaker options:
+   *   - failureThreshold: consecutive failures that open the circuit (default: 5)
+   *   - resetTimeout: ms the circuit stays open before trial requests (default: 30000)
+   *   - halfOpenMax: maximum concurrent trial requests while half-open (default: 1)
+   *   - onStateChange: called with `{ origin, from, to }` whenever a circuit changes state
+   * @returns The API builder instance for chaining
+   * @throws {RequestError} If failureThreshold or halfOpenMax is not a positive integer, or resetTimeout is negative
+   *
+   * @example
+   * ```typescript
+   * const api = createApi()
+   *   .withBaseURL('https://api.example.com')
+   *   .withRetries(3)
+   *   .withCircuitBreaker({
+   *     failureThreshold: 5,
+   *     resetTimeout: 10000,
+   *     onStateChange: ({ origin, to }) => metrics.increment(`circuit.${to}`, { origin }),
+   *   });
+   *
+   * try {
+   *   await api.get('/users').getJson();
+   * } catch (error) {
+   *   if (error.isCircuitOpen) showOfflineBanner();
+   * }
+   * ```
+   */
+  withCircuitBreaker(options?: CircuitBreakerOptions): ApiBuilder;
+
+  /**
+   * Listen to a lifecycle event of the requests created through this API instance.
+   * Handlers registered globally with `config.on()` are called first.
+   *
+   * @param event - The event name:
+   *   - `request:start`: an attempt started (`method`, `url`, `attempt`)
+   *   - `request:end`: an attempt got a successful response (adds `status`, `duration`, `bytes`)
+   *   - `retry`: a retry was scheduled (adds `error`, `delay`)
+   *   - `error`: an attempt failed (adds `error`, `status`, `duration`)
+   * @param handler - Called with the event payload; errors thrown by the handler are ignored
+   * @returns The API builder instance for chaining
+   *
+   * @example
+   * ```typescript
+   * const api = createApi()
+   *   .withBaseURL('https://api.example.com')
+   *   .withRetries(3)
+   *   .on('request:end', ({ method, url, status, duration }) => metrics.histogram('http.duration', duration, { method, url, status }))
+   *   .on('retry', ({ attempt, delay, error }) => console.warn(`Retry ${attempt} in ${delay}ms: ${error.message}`))
+   *   .on('error', ({ error }) => error.isTimeout && metrics.increment('http.timeout'));
+   * ```
+   */
+  on<E extends RequestEventName>(event: E, handler: RequestEventHandler<E>): ApiBuilder;
+
+  /**
+   * Remove a lifecycle event handler registered with `on()`.
+   *
+   * @param event - The event name
+   * @param handler - The handler to remove
+   * @returns The API builder instance for chaining
+   */
+  off<E extends RequestEventName>(event: E, handler: RequestEventHandler<E>): ApiBuilder;
+
   /**
    * Set the request mode.
    * Controls CORS behavior and what types of responses are allowed.
@@ -555,6 +840,11 @@ type ApiBuilder = {
  */
 class ApiBuilderImpl {
   private _baseURL?: string;
+  private _queue?: RequestQueue;
+  private _limiter?: RateLimiter;
+  private _breaker?: CircuitBreaker;
+  private _events = new RequestEvents();
+  private _serializers = new Serializers();
   private _mods: Array<(request: BaseRequest) => void> = [];
   private _proxy?: ApiBuilder;
 
@@ -563,6 +853,47 @@ class ApiBuilderImpl {
     return this._getProxy();
   }
 
+  withConcurrency(limit: number, options: ConcurrencyOptions = {}): ApiBuilder {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new RequestError(`Bad concurrency: ${limit}`, this._baseURL || "", "");
+    }
+    this._queue = new RequestQueue(limit, options.perOrigin);
+    return this._getProxy();
+  }
+
+  withRateLimit(options: RateLimitOptions): ApiBuilder {
+    const { requests, perMs = 1000, burst = requests } = options;
+    if (![requests, perMs, burst].every(value => Number.isFinite(value) && value > 0) || burst < 1) {
+      throw new RequestError("Bad rate limit", this._baseURL || "", "");
+    }
+    this._limiter = new RateLimiter(options);
+    return this._getProxy();
+  }
+
+  withCircuitBreaker(options: CircuitBreakerOptions = {}): ApiBuilder {
+    const { failureThreshold = 5, resetTimeout = 30000, halfOpenMax = 1 } = options;
+    if (!Number.isInteger(failureThreshold) || failureThreshold < 1 || !Number.isInteger(halfOpenMax) || halfOpenMax < 1 || !(resetTimeout >= 0)) {
+      throw new RequestError("Bad circuit breaker", this._baseURL || "", "");
+    }
+    this._breaker = new CircuitBreaker(options);
+    return this._getProxy();
+  }
+
+  withSerializer(contentType: string, serializer: BodySerializer): ApiBuilder {
+    this._serializers.set(contentType, serializer);
+    return this._getProxy();
+  }
+
+  on<E extends RequestEventName>(event: E, handler: RequestEventHandler<E>): ApiBuilder {
+    this._events.on(event, handler);
+    return this._getProxy();
+  }
+
+  off<E extends RequestEventName>(event: E, handler: RequestEventHandler<E>): ApiBuilder {
+    this._events.off(event, handler);
+    return this._getProxy();
+  }
+
   private _resolve(url?: string): string {
     if (!url) return this._baseURL || "";
     if (/^https?:\/\//.test(url)) return url;
@@ -572,6 +903,11 @@ class ApiBuilderImpl {
 
   private _new<T extends BaseRequest>(Ctor: new (url: string) => T, url?: string): T {
     const request = new Ctor(this._resolve(url));
+    if (this._queue) request.setQueue(this._queue);
+    if (this._limiter) request.setRateLimiter(this._limiter);
+    if (this._breaker) request.setCircuitBreaker(this._breaker);
+    request.setEvents(this._events);
+    request.setSerializers(this._serializers);
     for (const modifier of this._mods) modifier(request);
     return request;
   }
@@ -635,7 +971,15 @@ class ApiBuilderImpl {
         }
 
         // Check if it's a configuration method that already exists
-        if (prop === "withBaseURL") {
+        if (
+          prop === "withBaseURL" ||
+          prop === "withConcurrency" ||
+          prop === "withRateLimit" ||
+          prop === "withCircuitBreaker" ||
+          prop === "withSerializer" ||
+          prop === "on" ||
+          prop === "off"
+        ) {
           return implTarget[prop].bind(implTarget);
         }
 
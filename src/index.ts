@@ -7,6 +7,9 @@ export { HttpMethod, RequestPriority, CredentialsPolicy, RequestMode, RedirectMo
 
 // Export types
 export type {
+  CacheEntry,
+  BackoffOptions,
+  ExponentialBackoffOptions,
   RetryCallback,
   RetryConfig,
   CookiesRecord,
@@ -18,13 +21,46 @@ export type {
   ErrorInterceptor,
   RequestInterceptor,
   RetryDelayFunction,
+  ShouldRetryFunction,
   ResponseInterceptor,
+  ResponseCacheStore,
+  ResponseCacheOptions,
+  StaleWhileRevalidateOptions,
+  DedupeOptions,
+  HedgingOptions,
+  ConcurrencyOptions,
+  RateLimitOptions,
+  CircuitState,
+  CircuitBreakerOptions,
+  RequestEventBase,
+  RequestEventMap,
+  RequestEventName,
+  RequestEventHandler,
+  SpanAttributes,
+  TracingSpan,
+  Tracer,
+  RequestTimings,
+  TransferProgress,
+  ProgressCallback,
+  ProgressOptions,
+  ResumeOptions,
+  UploadChunk,
+  ChunkedUploadOptions,
+  ServerSentEvent,
+  EventStreamOptions,
+  StandardSchemaV1,
+  StandardSchemaResult,
+  StandardSchemaIssue,
+  InferSchemaOutput,
+  BodySerializer,
 } from "./types.js";
 
 // Export core classes
 export { ResponseWrapper } from "./ResponseWrapper.js";
 export { CookieUtils } from "./utils/CookieUtils.js";
+export { MemoryCacheStore } from "./utils/ResponseCache.js";
 export { RequestError } from "./RequestError.js";
+export { RetryStrategies } from "./RetryStrategies.js";
 
 // Export request classes
 export { GetRequest, PostRequest, PutRequest, DeleteRequest, PatchRequest, HeadRequest, OptionsRequest } from "./requestMethods.js";
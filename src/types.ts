@@ -25,6 +25,7 @@ export type Body = BodyInit | Record<string, unknown> | unknown[];
  * @param options - Retry callback options
  * @param options.attempt - The current retry attempt number (1-based, so first retry is 1)
  * @param options.error - The RequestError that triggered this retry
+ * @param options.retryAfter - The wait in milliseconds requested by the server via `Retry-After` or `RateLimit-Reset` on a 429/503 response, if any
  * @returns `void` or a `Promise<void>` if the callback is async
  *
  * @example
@@ -34,7 +35,7 @@ export type Body = BodyInit | Record<string, unknown> | unknown[];
  * };
  * ```
  */
-export type RetryCallback = (options: { attempt: number; error: RequestError }) => void | Promise<void>;
+export type RetryCallback = (options: { attempt: number; error: RequestError; retryAfter?: number }) => void | Promise<void>;
 
 /**
  * Function that calculates the delay (in milliseconds) before the next retry attempt.
@@ -43,6 +44,8 @@ export type RetryCallback = (options: { attempt: number; error: RequestError })
  * @param options - Delay calculation options
  * @param options.attempt - The current retry attempt number (1-based, so first retry is 1)
  * @param options.error - The RequestError that triggered this retry
+ * @param options.retryAfter - The wait in milliseconds requested by the server via `Retry-After` or `RateLimit-Reset` on a 429/503 response, if any
+ * @param options.previousDelay - The delay this function returned for the previous retry of the same request (undefined on the first retry)
  * @returns The delay in milliseconds (must be non-negative)
  *
  * @example
@@ -62,7 +65,64 @@ export type RetryCallback = (options: { attempt: number; error: RequestError })
  * };
  * ```
  */
-export type RetryDelayFunction = (options: { attempt: number; error: RequestError }) => number;
+export type RetryDelayFunction = (options: { attempt: number; error: RequestError; retryAfter?: number; previousDelay?: number }) => number;
+
+/**
+ * Options shared by the built-in backoff strategies in `RetryStrategies`.
+ *
+ * @example
+ * ```typescript
+ * const options: BackoffOptions = {
+ *   base: 500, // First delay in milliseconds
+ *   max: 10000, // Never wait longer than 10 seconds
+ *   random: RetryStrategies.seeded(42) // Deterministic jitter for tests
+ * };
+ * ```
+ */
+export interface BackoffOptions {
+  /** Base delay in milliseconds (default: 1000) */
+  base?: number;
+  /** Upper bound for any computed delay in milliseconds (default: 30000) */
+  max?: number;
+  /**
+   * Random number generator returning values in `[0, 1)`, used for jitter (default: `Math.random`).
+   * Pass a seeded generator (e.g. `RetryStrategies.seeded(42)`) to get reproducible delays.
+   */
+  random?: () => number;
+}
+
+/**
+ * Options for the exponential backoff strategy.
+ */
+export interface ExponentialBackoffOptions extends BackoffOptions {
+  /** Multiplier applied for every attempt (default: 2) */
+  factor?: number;
+  /**
+   * Jitter applied to the computed delay:
+   * - `"none"` (default): no randomization
+   * - `"full"`: random delay between 0 and the computed delay
+   * - `"equal"`: half the computed delay plus a random amount up to the other half
+   */
+  jitter?: "none" | "full" | "equal";
+}
+
+/**
+ * Predicate that decides whether a failed request should be retried.
+ * When provided, it replaces the default retry policy (network errors, timeouts, 408, 429 and 5xx).
+ * Aborted requests are never retried, regardless of the predicate's result.
+ *
+ * @param options - Retry decision options
+ * @param options.attempt - The retry attempt that would be made (1-based, so first retry is 1)
+ * @param options.error - The RequestError that caused the failure
+ * @returns `true` to retry, `false` to fail immediately (or a Promise resolving to either)
+ *
+ * @example
+ * ```typescript
+ * // Only retry rate limits and server errors
+ * const shouldRetry: ShouldRetryFunction = ({ error }) => error.status === 429 || (error.status ?? 0) >= 500;
+ * ```
+ */
+export type ShouldRetryFunction = (options: { attempt: number; error: RequestError }) => boolean | Promise<boolean>;
 
 /**
  * Configuration object for retry behavior.
@@ -85,6 +145,26 @@ export type RetryDelayFunction = (options: { attempt: number; error: RequestErro
  *   delay: ({ attempt }) => Math.min(1000 * Math.pow(2, attempt - 1), 10000)
  * };
  * ```
+ *
+ * @example
+ * ```typescript
+ * // Only retry specific status codes
+ * const config: RetryConfig = {
+ *   attempts: 2,
+ *   retryOn: [429, 503]
+ * };
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Wait as long as the server asks via Retry-After, but never more than 30 seconds
+ * const config: RetryConfig = {
+ *   attempts: 3,
+ *   delay: 1000,
+ *   retryAfterMode: "override",
+ *   maxDelay: 30000
+ * };
+ * ```
  */
 export interface RetryConfig {
   /**
@@ -99,6 +179,28 @@ export interface RetryConfig {
    * - If not provided: no delay between retries (immediate retry)
    */
   delay?: number | RetryDelayFunction;
+  /**
+   * HTTP status codes that should be retried.
+   * Network errors and timeouts are always retried.
+   * Defaults to `[408, 429]` plus every 5xx status.
+   */
+  retryOn?: number[];
+  /**
+   * Custom predicate deciding whether a failure should be retried.
+   * Takes precedence over `retryOn`. Aborted requests are never retried.
+   */
+  shouldRetry?: ShouldRetryFunction;
+  /**
+   * How a server-provided wait (`Retry-After` or `RateLimit-Reset` on a 429/503 response) affects the delay.
+   * - `"override"`: wait exactly as long as the server asks, instead of the computed delay
+   * - `"cap"`: use the computed delay, but never wait longer than the server asks
+   * - If not provided: server hints are ignored (but still passed to `delay` and `onRetry`)
+   */
+  retryAfterMode?: "override" | "cap";
+  /**
+   * Upper bound in milliseconds for any delay between retries, including server-provided waits.
+   */
+  maxDelay?: number;
 }
 
 /**
@@ -322,8 +424,518 @@ export interface GraphQLOptions {
  */
 export type FetchFunction = (input: string | URL | globalThis.Request, init?: RequestInit) => Promise<Response>;
 
+/**
+ * A response stored in a response cache.
+ * Custom stores only need to persist and return these objects as-is.
+ */
+export interface CacheEntry {
+  /** HTTP status code of the stored response */
+  status: number;
+  /** HTTP status text of the stored response */
+  statusText: string;
+  /** Response headers as name-value pairs */
+  headers: Array<[string, string]>;
+  /** The response body */
+  body: ArrayBuffer;
+  /** Timestamp (in milliseconds) after which the entry is stale */
+  expires: number;
+  /** Values of the request headers listed in the response's `Vary` header, keyed by lower-cased name */
+  vary?: Record<string, string>;
+  /** How long (in milliseconds) past `expires` the entry may be served while refreshing (`stale-while-revalidate`) */
+  staleWhileRevalidate?: number;
+  /** How long (in milliseconds) past `expires` the entry may be served when refreshing fails (`stale-if-error`) */
+  staleIfError?: number;
+}
+
+/**
+ * Storage backend for the response cache.
+ * Methods may be synchronous or return promises, so any key-value store (IndexedDB, Redis, ...) can be plugged in.
+ *
+ * @example
+ * ```typescript
+ * const store: ResponseCacheStore = {
+ *   get: key => redis.get(key).then(value => (value ? deserialize(value) : undefined)),
+ *   set: (key, entry) => redis.set(key, serialize(entry)).then(() => undefined),
+ *   delete: key => redis.del(key).then(() => undefined),
+ * };
+ * ```
+ */
+export interface ResponseCacheStore {
+  /** Returns the entry stored under `key`, or `undefined` if there is none */
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  /** Stores `entry` under `key`, replacing any previous entry */
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  /** Removes the entry stored under `key` */
+  delete(key: string): void | Promise<void>;
+}
+
+/**
+ * Options for the response cache.
+ *
+ * @example
+ * ```typescript
+ * const options: ResponseCacheOptions = {
+ *   store: new MemoryCacheStore(500), // Keep up to 500 responses
+ *   ttl: 30000 // Keep responses with only an ETag or Last-Modified for 30 seconds
+ * };
+ * ```
+ */
+export interface ResponseCacheOptions {
+  /** Where responses are stored (default: a shared in-memory LRU store) */
+  store?: ResponseCacheStore;
+  /**
+   * Lifetime in milliseconds for responses with a validator (`ETag` or `Last-Modified`) but without
+   * `Cache-Control: max-age` or `Expires` (default: 60000). Responses with neither aren't stored.
+   */
+  ttl?: number;
+}
+
+/**
+ * Options for stale-while-revalidate.
+ *
+ * @example
+ * ```typescript
+ * const options: StaleWhileRevalidateOptions = {
+ *   maxStale: 300000, // Serve responses up to 5 minutes past expiry
+ *   onUpdate: async response => render(await response.getJson())
+ * };
+ * ```
+ */
+export interface StaleWhileRevalidateOptions {
+  /**
+   * How long in milliseconds past expiry a cached response may be served while it is refreshed
+   * (default: the response's `stale-while-revalidate` directive, or unlimited without one)
+   */
+  maxStale?: number;
+  /**
+   * Called with the new response when a background refresh brings changed data (not on 304 Not Modified).
+   * Returned promises are awaited; a rejection is passed to `onError`.
+   */
+  onUpdate?: (response: ResponseWrapper) => void | Promise<void>;
+  /** Called when a background refresh or `onUpdate` fails; errors it throws are ignored */
+  onError?: (error: RequestError) => void;
+}
+
+/**
+ * Options for in-flight request deduplication.
+ *
+ * @example
+ * ```typescript
+ * // Requests differing only in e.g. a tracing header still share one call
+ * const options: DedupeOptions = { headers: ['Authorization', 'Accept'] };
+ * ```
+ */
+export interface DedupeOptions {
+  /** Header names that distinguish otherwise identical requests (default: all headers) */
+  headers?: string[];
+}
+
+/**
+ * Options for the concurrency limit of an API instance.
+ */
+export interface ConcurrencyOptions {
+  /** Apply the limit to each origin separately instead of to all requests (default: false) */
+  perOrigin?: boolean;
+}
+
+/**
+ * Options for client-side rate limiting of an API instance (token bucket).
+ *
+ * @example
+ * ```typescript
+ * // 10 requests per second, allowing bursts of up to 20
+ * const options: RateLimitOptions = { requests: 10, perMs: 1000, burst: 20 };
+ * ```
+ */
+export interface RateLimitOptions {
+  /** Number of requests allowed per `perMs` */
+  requests: number;
+  /** Length of the window in milliseconds (default: 1000) */
+  perMs?: number;
+  /** Maximum number of requests sent at once after an idle period (default: `requests`) */
+  burst?: number;
+  /** Adapt to `RateLimit-Remaining` / `RateLimit-Reset` response headers (default: true) */
+  adaptive?: boolean;
+}
+
+/**
+ * State of a circuit breaker: `closed` lets requests through, `open` fails them fast,
+ * and `half-open` lets a limited number of trial requests through
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Options for the per-origin circuit breaker of an API instance.
+ *
+ * @example
+ * ```typescript
+ * const options: CircuitBreakerOptions = {
+ *   failureThreshold: 5, // Open after 5 consecutive failures
+ *   resetTimeout: 30000, // Try again after 30 seconds
+ *   onStateChange: ({ origin, to }) => alert(`${origin} circuit is ${to}`)
+ * };
+ * ```
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures (network errors, timeouts, 5xx responses) that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** How long in milliseconds the circuit stays open before trial requests are let through (default: 30000) */
+  resetTimeout?: number;
+  /** Maximum number of concurrent trial requests while half-open (default: 1) */
+  halfOpenMax?: number;
+  /** Called whenever the circuit of an origin changes state */
+  onStateChange?: (change: { origin: string; from: CircuitState; to: CircuitState }) => void;
+}
+
+/**
+ * Options for hedged requests.
+ *
+ * @example
+ * ```typescript
+ * // Send a copy after 100ms without a response, and another after 200ms
+ * const options: HedgingOptions = { delayMs: 100, maxHedges: 2 };
+ * ```
+ */
+export interface HedgingOptions {
+  /** How long in milliseconds to wait for a response before sending the next copy */
+  delayMs: number;
+  /** Maximum number of extra copies to send (default: 1) */
+  maxHedges?: number;
+}
+
+/**
+ * Attribute values accepted by a tracing span
+ */
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Minimal span interface used by `withTracing()`. OpenTelemetry spans satisfy it as they are.
+ */
+export interface TracingSpan {
+  /** The span's W3C trace context, propagated in the `traceparent` and `tracestate` headers */
+  spanContext(): { traceId: string; spanId: string; traceFlags: number; traceState?: { serialize(): string } };
+  /** Set an attribute on the span */
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  /** Set the span status; failed requests use code 2 (OpenTelemetry's `SpanStatusCode.ERROR`) */
+  setStatus(status: { code: number; message?: string }): unknown;
+  /** End the span */
+  end(): void;
+}
+
+/**
+ * Minimal tracer interface used by `withTracing()`.
+ * Each request gets a span, and each attempt a child span with `parent` set to the request's span.
+ *
+ * @example
+ * ```typescript
+ * // Adapter for an OpenTelemetry tracer
+ * import { context, trace, SpanKind, type Span } from "@opentelemetry/api";
+ *
+ * const otel = trace.getTracer("create-request");
+ * const tracer: Tracer = {
+ *   startSpan: (name, { attributes, parent }) =>
+ *     otel.startSpan(name, { kind: SpanKind.CLIENT, attributes }, parent ? trace.setSpan(context.active(), parent as Span) : undefined),
+ * };
+ * ```
+ */
+export interface Tracer {
+  /** Start a span, as a child of `parent` if given */
+  startSpan(name: string, options: { attributes: SpanAttributes; parent?: TracingSpan }): TracingSpan;
+}
+
+/**
+ * Timing breakdown of a request, in milliseconds.
+ * Available as `timings` on the ResponseWrapper and on the RequestError of a failed request.
+ *
+ * @example
+ * ```typescript
+ * const response = await api.get('/users').getResponse();
+ * await response.getJson();
+ * const { queued, headers, body, total, attempts } = response.timings!;
+ * ```
+ */
+export interface RequestTimings {
+  /** Time spent waiting for a concurrency slot or rate limit token, over all attempts */
+  queued: number;
+  /** Time spent in request, response and error interceptors, over all attempts */
+  interceptors: number;
+  /** Time from sending the last attempt until its response headers arrived (excluding queueing) */
+  headers: number;
+  /** Time from sending the last attempt until its body was read; undefined until the body is read through the ResponseWrapper */
+  body?: number;
+  /** Time from the start of the first attempt until the last one finished, including retry delays */
+  total: number;
+  /** Number of attempts made */
+  attempts: number;
+}
+
+/**
+ * Progress of an upload or download.
+ *
+ * @example
+ * ```typescript
+ * const onProgress = ({ loaded, total, percent }: TransferProgress) => {
+ *   bar.value = percent ?? 0;
+ *   label.textContent = `${loaded} / ${total ?? "?"} bytes`;
+ * };
+ * ```
+ */
+export interface TransferProgress {
+  /** Bytes transferred so far */
+  loaded: number;
+  /** Total bytes, if known (in the last report, `loaded` once the transfer is complete) */
+  total?: number;
+  /** Percentage from 0 to 100, if the total is known */
+  percent?: number;
+}
+
+/**
+ * Callback receiving transfer progress
+ */
+export type ProgressCallback = (progress: TransferProgress) => void;
+
+/**
+ * Options for upload and download progress reporting.
+ *
+ * @example
+ * ```typescript
+ * // At most one report every 100ms (the final report is always made)
+ * const options: ProgressOptions = { throttleMs: 100 };
+ * ```
+ */
+export interface ProgressOptions {
+  /** Minimum time in milliseconds between two reports; the final report is always made (default: 0) */
+  throttleMs?: number;
+}
+
+/**
+ * Options for resumable downloads.
+ *
+ * @example
+ * ```typescript
+ * const options: ResumeOptions = { maxResumes: 5 };
+ * ```
+ */
+export interface ResumeOptions {
+  /** Maximum number of times an interrupted download is resumed (default: 3) */
+  maxResumes?: number;
+}
+
+/**
+ * A chunk stored by a chunked upload.
+ */
+export interface UploadChunk {
+  /** Offset of the first byte of the chunk */
+  start: number;
+  /** Offset of the last byte of the chunk (inclusive, as in `Content-Range`) */
+  end: number;
+  /** Size of the whole upload */
+  total: number;
+  /** The server's response to the chunk */
+  response: ResponseWrapper;
+}
+
+/**
+ * Options for chunked uploads.
+ *
+ * @example
+ * ```typescript
+ * // 16 MiB chunks, 4 at a time, resuming where the server says the upload stopped
+ * const options: ChunkedUploadOptions = {
+ *   chunkSize: 16 * 1024 * 1024,
+ *   concurrency: 4,
+ *   offset: async () => Number((await create.head(uploadUrl).getResponse()).headers.get("upload-offset")),
+ * };
+ * ```
+ */
+export interface ChunkedUploadOptions {
+  /** Chunk size in bytes (default: 8 MiB) */
+  chunkSize?: number;
+  /** Number of chunks sent at once; the last chunk is sent alone, after all others are stored (default: 1) */
+  concurrency?: number;
+  /** Offset to start from, or a function reading it from the server, to resume an interrupted upload (default: 0) */
+  offset?: number | (() => number | Promise<number>);
+  /** Called when a chunk has been stored. Response bodies of chunks before the last are cancelled afterwards, unless read here */
+  onChunk?: (chunk: UploadChunk) => void;
+}
+
+/**
+ * An event of a `text/event-stream` response (Server-Sent Events).
+ *
+ * @example
+ * ```typescript
+ * for await (const { event, data } of create.get('/notifications').getEventStream()) {
+ *   if (event === 'update') render(JSON.parse(data));
+ * }
+ * ```
+ */
+export interface ServerSentEvent {
+  /** The last event ID received on the stream, if any */
+  id?: string;
+  /** The event type (`"message"` unless the event sets one) */
+  event: string;
+  /** The event data; multiple `data` lines are joined with newlines */
+  data: string;
+  /** The reconnection delay in milliseconds, when the event sets one */
+  retry?: number;
+}
+
+/**
+ * Options for reading Server-Sent Events with `getEventStream()`.
+ *
+ * @example
+ * ```typescript
+ * const options: EventStreamOptions = { retryDelay: 1000, maxReconnects: 10 };
+ * ```
+ */
+export interface EventStreamOptions {
+  /** Reconnect when the stream ends or the connection drops (default: true for GET, false for other methods) */
+  reconnect?: boolean;
+  /** Delay in milliseconds before reconnecting, unless the server sets one with `retry` (default: 3000) */
+  retryDelay?: number;
+  /** Maximum number of reconnects in a row without receiving an event (default: Infinity) */
+  maxReconnects?: number;
+}
+
+/**
+ * A validation issue reported by a Standard Schema validator.
+ */
+export interface StandardSchemaIssue {
+  /** The error message */
+  readonly message: string;
+  /** Where the issue occurred in the data: property keys, or segments carrying a key */
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined;
+}
+
+/**
+ * Result of a Standard Schema validation: the validated value, or the issues found.
+ */
+export type StandardSchemaResult<Output> = { readonly value: Output; readonly issues?: undefined } | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/**
+ * The Standard Schema interface (v1), implemented by Zod (3.24+), Valibot (1.0+), ArkType (2.0+) and other
+ * validators. Any of their schemas can be passed to `withResponseSchema()`, `getData(schema)` and `withBody()`.
+ * See https://standardschema.dev
+ *
+ * @example
+ * ```typescript
+ * import { z } from 'zod';
+ *
+ * const User = z.object({ id: z.number(), name: z.string() });
+ * const user = await create.get('/api/users/1').getData(User); // { id: number; name: string }
+ * ```
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+  };
+}
+
+/**
+ * The type of the data a Standard Schema produces.
+ */
+export type InferSchemaOutput<S extends StandardSchemaV1> = NonNullable<S["~standard"]["types"]>["output"];
+
+/**
+ * Converts request bodies to and from a content type, registered with `Config.setSerializer()` or
+ * `createApi().withSerializer()`. `serialize` replaces `JSON.stringify` for object and array bodies sent with
+ * that Content-Type; `parse` reads responses of that Content-Type in `getParsed()`.
+ *
+ * @example
+ * ```typescript
+ * import { encode, decode } from '@msgpack/msgpack';
+ *
+ * Config.getInstance().setSerializer('application/msgpack', {
+ *   serialize: value => encode(value),
+ *   parse: body => decode(body),
+ * });
+ * ```
+ */
+export interface BodySerializer {
+  /** Convert an object or array body to the data sent */
+  serialize?: (value: unknown) => BodyInit | Promise<BodyInit>;
+  /** Convert the bytes of a response body to data; `contentType` is the full Content-Type header */
+  parse?: (body: Uint8Array, contentType: string) => unknown;
+}
+
+/**
+ * Fields carried by every request lifecycle event
+ */
+export interface RequestEventBase {
+  /** The HTTP method */
+  method: string;
+  /** The request URL */
+  url: string;
+  /** The attempt number (1 for the first try, 2 for the first retry, ...) */
+  attempt: number;
+}
+
+/**
+ * Request lifecycle events and their payloads.
+ *
+ * - `request:start`: an attempt started
+ * - `request:end`: an attempt received a successful response and the response interceptors accepted it (the body may still be unread)
+ * - `request:body`: the body of a successful response was read to the end
+ * - `retry`: a retry was scheduled after the failed attempt `attempt`
+ * - `error`: an attempt failed (network error, timeout, abort, HTTP error status, ...)
+ *
+ * @example
+ * ```typescript
+ * const onEnd = (event: RequestEventMap["request:end"]) => {
+ *   metrics.histogram("http.duration", event.duration, { method: event.method, status: event.status });
+ * };
+ * ```
+ */
+export interface RequestEventMap {
+  "request:start": RequestEventBase;
+  "request:end": RequestEventBase & {
+    /** The response status */
+    status: number;
+    /** Time in milliseconds from the start of the attempt, including the response interceptors */
+    duration: number;
+    /** The response size from the Content-Length header, if present */
+    bytes?: number;
+  };
+  "request:body": RequestEventBase & {
+    /** The response status */
+    status: number;
+    /** The number of body bytes read (after content decoding) */
+    bytes: number;
+    /** Time in milliseconds from the response headers to the end of the body */
+    duration: number;
+  };
+  retry: RequestEventBase & {
+    /** The error of the failed attempt */
+    error: RequestError;
+    /** Delay in milliseconds before the retry is sent */
+    delay: number;
+  };
+  error: RequestEventBase & {
+    /** The error of the attempt (check `isTimeout`, `isAborted`, ...) */
+    error: RequestError;
+    /** The response status, for HTTP errors */
+    status?: number;
+    /** Time in milliseconds from the start of the attempt */
+    duration: number;
+  };
+}
+
+/**
+ * Name of a request lifecycle event
+ */
+export type RequestEventName = keyof RequestEventMap;
+
+/**
+ * Handler for a request lifecycle event. Errors thrown by handlers are ignored.
+ */
+export type RequestEventHandler<E extends RequestEventName> = (event: RequestEventMap[E]) => void;
+
 export interface RequestOptions extends Omit<RequestInit, "signal" | "body" | "method" | "credentials" | "mode" | "redirect" | "priority" | "cache"> {
   timeout?: number;
+  deadline?: number;
   retries?: number | RetryConfig;
   onRetry?: RetryCallback;
   body?: Body;
@@ -0,0 +1,87 @@
+import type { ChunkedUploadOptions } from "../types.js";
+import type { ResponseWrapper } from "../ResponseWrapper.js";
+import { RequestError } from "../RequestError.js";
+
+/**
+ * Sends one chunk: the body slice and its `Content-Range` header
+ */
+type SendChunk = (body: Blob, contentRange: string) => Promise<ResponseWrapper>;
+
+/**
+ * Helpers for uploading a Blob in chunks with `Content-Range` headers
+ * @internal
+ */
+export class ChunkedUpload {
+  /** Default chunk size: 8 MiB */
+  static readonly CHUNK_SIZE = 8 * 1024 * 1024;
+
+  /**
+   * Check chunked upload options
+   * @throws RequestError if chunkSize or concurrency is not a positive integer, or offset a non-negative integer
+   */
+  static validate(options: ChunkedUploadOptions, url: string, method: string): void {
+    const { chunkSize = ChunkedUpload.CHUNK_SIZE, concurrency = 1, offset = 0 } = options;
+    if (!Number.isInteger(chunkSize) || chunkSize < 1) throw new RequestError(`Bad chunkSize: ${chunkSize}`, url, method);
+    if (!Number.isInteger(concurrency) || concurrency < 1) throw new RequestError(`Bad concurrency: ${concurrency}`, url, method);
+    if (typeof offset !== "function") ChunkedUpload._offset(offset, Infinity, url, method);
+  }
+
+  /**
+   * Upload a Blob in chunks
+   * Chunks before the last one are sent with up to `concurrency` in flight; the last chunk is sent once they
+   * are all stored, so servers can finalize the upload on it. When nothing is left to send (an empty Blob, or
+   * an offset at the end), a single empty request reporting the size in `Content-Range` is sent.
+   * @param blob The data to upload
+   * @param options Chunked upload options
+   * @param send Sends one chunk
+   * @param onStored Called with the number of bytes stored so far, after each chunk
+   * @param url The request URL (for error context)
+   * @param method The request method (for error context)
+   * @returns The response to the last chunk
+   */
+  static async send(blob: Blob, options: ChunkedUploadOptions, send: SendChunk, onStored: (stored: number) => void, url: string, method: string): Promise<ResponseWrapper> {
+    const { chunkSize = ChunkedUpload.CHUNK_SIZE, concurrency = 1, offset = 0, onChunk } = options;
+    const total = blob.size;
+    const start = ChunkedUpload._offset(typeof offset === "function" ? await offset() : offset, total, url, method);
+    if (start === total) return send(blob.slice(0, 0, blob.type), `bytes */${total}`);
+
+    const chunks: Array<[number, number]> = [];
+    for (let from = start; from < total; from += chunkSize) chunks.push([from, Math.min(from + chunkSize, total)]);
+    const last = chunks.pop()!;
+
+    let stored = start;
+    const sendChunk = async ([from, to]: [number, number], final = false) => {
+      const response = await send(blob.slice(from, to, blob.type), `bytes ${from}-${to - 1}/${total}`);
+      stored += to - from;
+      onStored(stored);
+      onChunk?.({ start: from, end: to - 1, total, response });
+      // Only the final response is returned; release the connections of the others unless onChunk reads them
+      if (!final && !response.raw.bodyUsed) await response.raw.body?.cancel();
+      return response;
+    };
+
+    let next = 0;
+    let failed = false;
+    const worker = async () => {
+      while (!failed && next < chunks.length) {
+        try {
+          await sendChunk(chunks[next++]);
+        } catch (error) {
+          failed = true;
+          throw error;
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+    return sendChunk(last, true);
+  }
+
+  /**
+   * Check an offset against the upload size
+   * @throws RequestError if the offset is not an integer between 0 and the size
+   */
+  private static _offset(offset: number, total: number, url: string, method: string): number {
+    if (!Number.isInteger(offset) || offset < 0 || offset > total) throw new RequestError(`Bad offset: ${offset}`, url, method);
+    return offset;
+  }
+}
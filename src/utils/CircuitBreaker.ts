@@ -0,0 +1,83 @@
+import type { CircuitBreakerOptions, CircuitState } from "../types.js";
+import { RequestQueue } from "./RequestQueue.js";
+
+/**
+ * Breaker state of a single origin
+ */
+type Circuit = {
+  state: CircuitState;
+  failures: number;
+  openedAt: number;
+  trials: number;
+};
+
+/**
+ * Circuit breaker shared by the requests of an API instance, tracked per origin.
+ * Consecutive failures open the circuit; after `resetTimeout` a limited number of trial requests
+ * are let through (half-open). A successful trial closes the circuit, a failed one opens it again.
+ * @internal
+ */
+export class CircuitBreaker {
+  private _circuits = new Map<string, Circuit>();
+
+  /**
+   * @param options The breaker options (already validated)
+   */
+  constructor(private readonly options: CircuitBreakerOptions) {}
+
+  /**
+   * Ask to send a request. Half-open circuits count the request as a trial.
+   * @param url The request URL
+   * @returns Whether the request may be sent
+   */
+  acquire(url: string): boolean {
+    const { resetTimeout = 30000, halfOpenMax = 1 } = this.options;
+    const origin = RequestQueue.origin(url);
+    const circuit = this._circuits.get(origin);
+    if (!circuit || circuit.state === "closed") return true;
+
+    if (circuit.state === "open") {
+      if (Date.now() - circuit.openedAt < resetTimeout) return false;
+      this._transition(origin, circuit, "half-open");
+    }
+    if (circuit.trials >= halfOpenMax) return false;
+    circuit.trials++;
+    return true;
+  }
+
+  /**
+   * Record the outcome of a request that was let through
+   * @param url The request URL
+   * @param outcome `success`, `failure`, or `ignore` for requests that say nothing about the server (e.g. aborts)
+   */
+  record(url: string, outcome: "success" | "failure" | "ignore"): void {
+    const origin = RequestQueue.origin(url);
+    let circuit = this._circuits.get(origin);
+    if (!circuit) {
+      if (outcome !== "failure") return;
+      circuit = { state: "closed", failures: 0, openedAt: 0, trials: 0 };
+      this._circuits.set(origin, circuit);
+    }
+
+    if (circuit.state === "half-open") {
+      circuit.trials = Math.max(0, circuit.trials - 1);
+      if (outcome === "success") this._transition(origin, circuit, "closed");
+      else if (outcome === "failure") this._transition(origin, circuit, "open");
+    } else if (circuit.state === "closed") {
+      if (outcome === "success") circuit.failures = 0;
+      else if (outcome === "failure" && ++circuit.failures >= (this.options.failureThreshold ?? 5)) this._transition(origin, circuit, "open");
+    }
+  }
+
+  /**
+   * Move a circuit to a new state and notify `onStateChange`
+   */
+  private _transition(origin: string, circuit: Circuit, to: CircuitState): void {
+    const from = circuit.state;
+    circuit.state = to;
+    circuit.failures = 0;
+    circuit.trials = 0;
+    if (to === "open") circuit.openedAt = Date.now();
+    this.options.onStateChange?.({ origin, from, to });
+  }
+}
@@ -1,4 +1,6 @@
-import type { RequestInterceptor, ResponseInterceptor, ErrorInterceptor } from "../types.js";
+import type { RequestInterceptor, ResponseInterceptor, ErrorInterceptor, RequestEventName, RequestEventHandler, Tracer, BodySerializer } from "../types.js";
+import { RequestEvents } from "./RequestEvents.js";
+import { Serializers } from "./Serializers.js";
 
 /**
  * Internal storage for interceptors as [id, interceptor] tuples
@@ -25,6 +27,15 @@ export class Config {
   private _errI: InterceptorWithId<ErrorInterceptor>[] = [];
   private _nextId: number = 1;
 
+  // Lifecycle event handlers
+  private _events = new RequestEvents();
+
+  // Tracing configuration
+  private _tracer: Tracer | null = null;
+
+  // Body serializers by content type
+  private _serializers = new Serializers();
+
   private constructor() {}
 
   /**
@@ -307,6 +318,102 @@ export class Config {
     return this._errI.map(item => item[1]);
   }
 
+  /**
+   * Listen to a lifecycle event of every request
+   * Handlers receive the method, URL and attempt number, plus the status, duration, bytes, delay or error where relevant.
+   *
+   * @param event - The event name: `request:start`, `request:end`, `retry` or `error`
+   * @param handler - Called with the event payload; errors thrown by the handler are ignored
+   * @returns The config instance for chaining
+   *
+   * @example
+   * Config.getInstance().on('request:end', ({ method, url, status, duration }) => {
+   *   metrics.histogram('http.duration', duration, { method, url, status });
+   * });
+   */
+  public on<E extends RequestEventName>(event: E, handler: RequestEventHandler<E>): Config {
+    this._events.on(event, handler);
+    return this;
+  }
+
+  /**
+   * Remove a lifecycle event handler registered with `on()`
+   *
+   * @param event - The event name
+   * @param handler - The handler to remove
+   * @returns The config instance for chaining
+   *
+   * @example
+   * Config.getInstance().off('request:end', handler);
+   */
+  public off<E extends RequestEventName>(event: E, handler: RequestEventHandler<E>): Config {
+    this._events.off(event, handler);
+    return this;
+  }
+
+  /**
+   * Get the global lifecycle event handlers
+   * @internal
+   */
+  public getEvents(): RequestEvents {
+    return this._events;
+  }
+
+  /**
+   * Set a tracer used by every request that doesn't set its own with `withTracing()`
+   * Each request gets a span, each attempt a child span, and the attempt's trace context is sent
+   * in the `traceparent` and `tracestate` headers.
+   *
+   * @param tracer - The tracer, or null to disable tracing
+   * @returns The config instance for chaining
+   *
+   * @example
+   * Config.getInstance().setTracer(tracer);
+   */
+  public setTracer(tracer: Tracer | null): Config {
+    this._tracer = tracer;
+    return this;
+  }
+
+  /**
+   * Get the global tracer
+   *
+   * @returns The tracer or null if tracing is disabled
+   */
+  public getTracer(): Tracer | null {
+    return this._tracer;
+  }
+
+  /**
+   * Register a serializer for a content type, used by every request
+   * `serialize` converts object and array bodies sent with that Content-Type (instead of `JSON.stringify`), and
+   * `parse` reads responses of that Content-Type in `getParsed()`. Content type parameters like `charset` are ignored.
+   * Serializers registered with `createApi().withSerializer()` take precedence.
+   *
+   * @param contentType - The content type, e.g. `application/msgpack`
+   * @param serializer - The serializer, or null to remove it
+   * @returns The config instance for chaining
+   * @throws {RequestError} If the content type is empty or the serializer has neither `serialize` nor `parse`
+   *
+   * @example
+   * Config.getInstance().setSerializer('application/msgpack', {
+   *   serialize: value => encode(value),
+   *   parse: body => decode(body),
+   * });
+   */
+  public setSerializer(contentType: string, serializer: BodySerializer | null): Config {
+    this._serializers.set(contentType, serializer);
+    return this;
+  }
+
+  /**
+   * Get the global body serializers
+   * @internal
+   */
+  public getSerializers(): Serializers {
+    return this._serializers;
+  }
+
   /**
    * Reset all configuration options to their default values
    *
@@ -323,6 +430,9 @@ export class Config {
     this._xsrfHeader = "X-XSRF-TOKEN";
     this._autoXsrf = true;
     this.clearInterceptors();
+    this._events.clear();
+    this._tracer = null;
+    this._serializers.clear();
     return this;
   }
 }
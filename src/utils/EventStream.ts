@@ -0,0 +1,67 @@
+import type { ServerSentEvent } from "../types.js";
+import type { ResponseWrapper } from "../ResponseWrapper.js";
+import { RequestError } from "../RequestError.js";
+import { TextStream } from "./TextStream.js";
+
+/**
+ * Connection state carried across the responses of one event stream
+ */
+export type EventStreamState = {
+  /** The last event ID, sent as `Last-Event-ID` when reconnecting */
+  lastEventId?: string;
+  /** The reconnection delay set by the server's `retry` field */
+  retry?: number;
+};
+
+/**
+ * Helpers for reading `text/event-stream` responses (Server-Sent Events)
+ * @internal
+ */
+export class EventStream {
+  /**
+   * Whether a response is an event stream, from its Content-Type
+   */
+  static accepts(response: ResponseWrapper): boolean {
+    return /^text\/event-stream\s*(;|$)/i.test(response.headers.get("content-type") ?? "");
+  }
+
+  /**
+   * Parse the events of a response, following the HTML event stream format: `data` lines are joined with
+   * newlines, comments and unknown fields are ignored, and an event with empty data (no `data` field, or only
+   * a bare `data:`) is not dispatched, though its `id` still sets the last event ID.
+   * A trailing event that isn't terminated by a blank line is discarded.
+   * @param response The response to read; its body is consumed
+   * @param state Connection state, updated with the last event ID and server reconnection delay
+   * @throws RequestError if the response isn't an event stream, its body was already used, or reading fails
+   */
+  static async *read(response: ResponseWrapper, state: EventStreamState = {}): AsyncGenerator<ServerSentEvent, void, undefined> {
+    const fail = (message: string) => new RequestError(message, response.url || "", response.method || "", { status: response.status, response: response.raw });
+    if (!EventStream.accepts(response)) throw fail(`Not an event stream: ${response.headers.get("content-type")}`);
+    const body = response.getBody();
+    if (!body) return;
+
+    let data: string[] = [];
+    let event = "";
+    let retry: number | undefined;
+
+    for await (const line of TextStream.lines(body, fail)) {
+      if (line === "") {
+        const joined = data.join("\n");
+        if (joined) yield { id: state.lastEventId || undefined, event: event || "message", data: joined, retry };
+        data = [];
+        event = "";
+        retry = undefined;
+        continue;
+      }
+      if (line.startsWith(":")) continue;
+
+      const colon = line.indexOf(":");
+      const field = colon < 0 ? line : line.slice(0, colon);
+      const value = colon < 0 ? "" : line.slice(line[colon + 1] === " " ? colon + 2 : colon + 1);
+      if (field === "data") data.push(value);
+      else if (field === "event") event = value;
+      else if (field === "id" && !value.includes("\0")) state.lastEventId = value;
+      else if (field === "retry" && /^\d+$/.test(value)) retry = state.retry = Number(value);
+    }
+  }
+}
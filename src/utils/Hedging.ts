@@ -0,0 +1,93 @@
+/**
+ * Utility class for hedged requests: duplicate a slow request and take the first good response
+ * @internal
+ */
+export class Hedging {
+  /** Abort reason for hedged requests that lost the race */
+  static readonly lost = new DOMException("Lost the hedge race", "AbortError");
+
+  /**
+   * Race the original request against up to `maxHedges` duplicates, sent `delayMs` apart.
+   * A successful response (status below 400) wins. A network error or 5xx response sends the next duplicate right away.
+   * A 4xx response stops sending duplicates and is returned once the requests still in flight have failed.
+   * The losers are aborted with `Hedging.lost`, and the bodies of responses that aren't returned are cancelled.
+   * If every request fails, the last failure is returned.
+   * @param run Sends one request with its own abort signal
+   * @param delayMs Time to wait for a response before sending the next duplicate
+   * @param maxHedges Maximum number of duplicates
+   * @param signal The request's abort signal, which aborts all of them
+   * @returns The winning response and its index (0 for the original)
+   */
+  static race(run: (signal: AbortSignal) => Promise<Response>, delayMs: number, maxHedges: number, signal?: AbortSignal): Promise<{ response: Response; index: number }> {
+    return new Promise((resolve, reject) => {
+      const controllers: AbortController[] = [];
+      let pending = 0;
+      let done = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      // First 4xx response, returned unless a request still in flight succeeds
+      let answer: { response: Response; index: number } | undefined;
+      // Last 5xx response, returned if every request fails
+      let last: Response | undefined;
+
+      const discard = (response: Response | undefined) => void response?.body?.cancel().catch(() => {});
+      const onAbort = () => controllers.forEach(controller => controller.abort(signal!.reason));
+      const finish = (winner?: number) => {
+        done = true;
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        controllers.forEach((controller, index) => index !== winner && controller.abort(Hedging.lost));
+      };
+      const win = (response: Response, index: number) => {
+        finish(index);
+        [answer?.response, last].forEach(held => held !== response && discard(held));
+        resolve({ response, index });
+      };
+      // After a failure, try the next duplicate now, or settle once nothing else is in flight
+      const next = (fail: () => void) => {
+        if (!answer && !signal?.aborted && controllers.length <= maxHedges) return launch();
+        if (pending) return;
+        if (answer) return win(answer.response, answer.index);
+        finish();
+        fail();
+      };
+
+      const launch = () => {
+        clearTimeout(timer);
+        const index = controllers.length;
+        const controller = new AbortController();
+        controllers.push(controller);
+        pending++;
+        if (index < maxHedges) timer = setTimeout(launch, delayMs);
+
+        run(controller.signal).then(
+          response => {
+            pending--;
+            if (done) return discard(response);
+            if (response.status < 400) return win(response, index);
+            if (answer) {
+              discard(response);
+            } else if (response.status < 500) {
+              clearTimeout(timer);
+              answer = { response, index };
+              discard(last);
+            } else {
+              discard(last);
+              last = response;
+            }
+            next(() => resolve({ response, index }));
+          },
+          (error: unknown) => {
+            pending--;
+            if (done) return;
+            discard(last);
+            last = undefined;
+            next(() => reject(error as Error));
+          }
+        );
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      launch();
+    });
+  }
+}
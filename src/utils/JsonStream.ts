@@ -0,0 +1,168 @@
+import type { ResponseWrapper } from "../ResponseWrapper.js";
+import { RequestError, errorMessage } from "../RequestError.js";
+import { TextStream } from "./TextStream.js";
+
+/**
+ * An open object or array while scanning a JSON document
+ */
+type Frame = { array: true; index: number } | { array: false; key?: string; expectKey: boolean };
+
+/**
+ * Helpers for reading JSON responses incrementally: newline-delimited JSON and the elements of large arrays
+ * @internal
+ */
+export class JsonStream {
+  /**
+   * Parse each line of a response as JSON (NDJSON / JSON Lines), as lines arrive. Blank lines are skipped.
+   * @param response The response to read; its body is consumed
+   * @throws RequestError if the body was already used, reading fails, or a line isn't valid JSON (with its line number)
+   */
+  static async *lines<T>(response: ResponseWrapper): AsyncGenerator<T, void, undefined> {
+    const fail = JsonStream._fail(response);
+    const body = response.getBody();
+    if (!body) return;
+
+    let number = 0;
+    for await (const line of TextStream.lines(body, fail)) {
+      number++;
+      if (!line.trim()) continue;
+      let value: T;
+      try {
+        value = JSON.parse(line) as T;
+      } catch (error) {
+        throw fail(`Bad JSON at line ${number}: ${errorMessage(error)}`, line);
+      }
+      yield value;
+    }
+  }
+
+  /**
+   * Parse the elements of a JSON array one by one, as the body arrives, holding only the current element in memory.
+   * The document is scanned until the array at `path` (dot-separated object keys or array indexes, e.g.
+   * `data.items`; the root value without a path) opens; each element is then parsed when complete. Reading
+   * stops once the array closes, without reading or validating the rest of the document.
+   * @param response The response to read; its body is consumed
+   * @param path The location of the array
+   * @throws RequestError if the body was already used, reading fails, the value at `path` is missing or not an
+   * array, or an element isn't valid JSON
+   */
+  static async *array<T>(response: ResponseWrapper, path = ""): AsyncGenerator<T, void, undefined> {
+    const fail = JsonStream._fail(response);
+    const body = response.getBody();
+    const target = path ? path.split(".") : [];
+    const where = path || "root";
+    if (!body) throw fail(`No array at ${where}`);
+
+    const stack: Frame[] = [];
+    let found = false;
+    // Nesting inside the current element, and its text read from previous chunks
+    let nesting = 0;
+    let element = "";
+    let count = 0;
+    let inString = false;
+    let escaped = false;
+    let key: string | undefined;
+
+    // Check whether the value starting here is the target array
+    const isTarget = (char: string) => {
+      if (stack.length !== target.length) return false;
+      if (stack.some((frame, i) => (frame.array ? String(frame.index) : frame.key) !== target[i])) return false;
+      if (char !== "[") throw fail(`Not an array: ${where}`);
+      return true;
+    };
+    const parse = (text: string) => {
+      try {
+        return JSON.parse(text) as T;
+      } catch (error) {
+        throw fail(`Bad JSON in element ${count}: ${errorMessage(error)}`, text);
+      }
+    };
+
+    for await (const text of TextStream.chunks(body, fail)) {
+      // Start of the current element's text in this chunk
+      let from = 0;
+      for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inString) {
+          if (key !== undefined) key += char;
+          if (escaped) escaped = false;
+          else if (char === "\\") escaped = true;
+          else if (char === '"') {
+            inString = false;
+            if (key !== undefined) {
+              (stack.at(-1) as { key?: string }).key = JSON.parse(key) as string;
+              key = undefined;
+            }
+          }
+          continue;
+        }
+
+        // Inside the target array, only element boundaries matter
+        if (found) {
+          if (char === '"') inString = true;
+          else if (char === "{" || char === "[") nesting++;
+          else if (nesting && (char === "}" || char === "]")) nesting--;
+          else if (!nesting && (char === "," || char === "]")) {
+            const value = (element + text.slice(from, i)).trim();
+            element = "";
+            from = i + 1;
+            if (value) {
+              yield parse(value);
+              count++;
+            } else if (char === "," || count) {
+              throw fail(`Bad JSON in element ${count}: Unexpected ${char}`);
+            }
+            if (char === "]") return;
+          }
+          continue;
+        }
+
+        const frame = stack.at(-1);
+        switch (char) {
+          case " ":
+          case "\n":
+          case "\r":
+          case "\t":
+          case ":":
+            break;
+          case '"':
+            inString = true;
+            if (frame && !frame.array && frame.expectKey) {
+              key = char;
+              frame.expectKey = false;
+            } else {
+              isTarget(char);
+            }
+            break;
+          case "{":
+          case "[":
+            found = isTarget(char);
+            from = i + 1;
+            stack.push(char === "[" ? { array: true, index: 0 } : { array: false, expectKey: true });
+            break;
+          case "}":
+          case "]":
+            stack.pop();
+            break;
+          case ",":
+            if (frame?.array) frame.index++;
+            else if (frame) frame.expectKey = true;
+            break;
+          default:
+            isTarget(char);
+        }
+      }
+      if (found) element += text.slice(from);
+    }
+
+    throw fail(found ? `Bad JSON in element ${count}: Unexpected end of input` : `No array at ${where}`);
+  }
+
+  /**
+   * Create errors carrying the response's context
+   */
+  private static _fail(response: ResponseWrapper): (message: string, body?: string) => RequestError {
+    return (message, body) => new RequestError(message, response.url || "", response.method || "", { status: response.status, response: response.raw, body });
+  }
+}
@@ -0,0 +1,100 @@
+import type { ProgressCallback, ProgressOptions } from "../types.js";
+import { RequestError } from "../RequestError.js";
+import { ResponseUtils } from "./ResponseUtils.js";
+
+/**
+ * Helpers for reporting upload and download progress
+ * @internal
+ */
+export class Progress {
+  /**
+   * Check progress options
+   * @throws RequestError if throttleMs is negative or not a number
+   */
+  static validate(options: ProgressOptions, url: string, method: string): void {
+    const { throttleMs = 0 } = options;
+    if (!Number.isFinite(throttleMs) || throttleMs < 0) throw new RequestError(`Bad throttle: ${throttleMs}`, url, method);
+  }
+
+  /**
+   * Size in bytes of a body, when it is known without reading it
+   * @param body The request body
+   * @returns The size, or undefined for streams and FormData
+   */
+  static size(body: BodyInit): number | undefined {
+    if (typeof body === "string") return new TextEncoder().encode(body).byteLength;
+    if (body instanceof Blob) return body.size;
+    if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) return body.byteLength;
+    if (body instanceof URLSearchParams) return new TextEncoder().encode(body.toString()).byteLength;
+    return undefined;
+  }
+
+  /**
+   * Pass a stream through, reporting the bytes read from it
+   * When the stream ends with a byte count other than `total` (unknown, or a compressed size), a final
+   * report is made with `total` set to the bytes read. Throttled reports are skipped, except the final one.
+   * @param stream The stream to count
+   * @param total The expected number of bytes, if known
+   * @param onProgress The progress callback
+   * @param options Progress options (throttling)
+   * @returns The counting stream
+   */
+  static count(stream: ReadableStream<Uint8Array>, total: number | undefined, onProgress: ProgressCallback, options: ProgressOptions = {}): ReadableStream<Uint8Array> {
+    const { throttleMs = 0 } = options;
+    let loaded = 0;
+    let reportedAt = -Infinity;
+    let skipped = false;
+    const report = (size: number | undefined) => {
+      reportedAt = Date.now();
+      skipped = false;
+      onProgress({ loaded, total: size, percent: size === undefined ? undefined : size ? Math.min(100, (loaded / size) * 100) : 100 });
+    };
+
+    return stream.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          loaded += chunk.byteLength;
+          controller.enqueue(chunk);
+          if (Date.now() - reportedAt >= throttleMs) report(total);
+          else skipped = true;
+        },
+        flush() {
+          if (loaded !== total) report(loaded);
+          else if (skipped) report(total);
+        },
+      })
+    );
+  }
+
+  /**
+   * Turn a request body into a stream reporting upload progress
+   * @param body The request body
+   * @param onProgress The progress callback
+   * @param options Progress options (throttling)
+   * @returns The counting stream, and the Content-Type fetch would have derived from the body (e.g. the multipart boundary of FormData)
+   */
+  static upload(body: BodyInit, onProgress: ProgressCallback, options?: ProgressOptions): { body: ReadableStream<Uint8Array>; contentType: string | null } {
+    const source = new Response(body);
+    return {
+      body: Progress.count(source.body!, Progress.size(body), onProgress, options),
+      contentType: source.headers.get("content-type"),
+    };
+  }
+
+  /**
+   * Make a response whose body reports download progress as it is read
+   * The total comes from `Content-Length`, unless the body is content-encoded (e.g. gzip), in which case the
+   * header gives the compressed size and the total is only known at the end.
+   * @param response The network response
+   * @param onProgress The progress callback
+   * @param options Progress options (throttling)
+   * @returns The response with a counting body (the original if it has no body)
+   */
+  static download(response: Response, onProgress: ProgressCallback, options?: ProgressOptions): Response {
+    if (!response.body) return response;
+    const length = Number(response.headers.get("content-length") ?? NaN);
+    const total = !ResponseUtils.encoded(response) && Number.isInteger(length) && length >= 0 ? length : undefined;
+
+    return ResponseUtils.withBody(response, Progress.count(response.body, total, onProgress, options));
+  }
+}
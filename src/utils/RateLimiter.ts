@@ -0,0 +1,98 @@
+import type { RateLimitOptions } from "../types.js";
+import { RetryUtils } from "./RetryUtils.js";
+
+/**
+ * Token bucket rate limiter shared by the requests of an API instance.
+ * Waiting requests are dispatched first come first served as tokens become available.
+ * @internal
+ */
+export class RateLimiter {
+  private readonly _rate: number;
+  private readonly _capacity: number;
+  private readonly _adaptive: boolean;
+  private _tokens: number;
+  private _last = Date.now();
+  private _pausedUntil = 0;
+  private _waiting: Array<() => void> = [];
+  private _timer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * @param options The rate limit (already validated)
+   */
+  constructor(options: RateLimitOptions) {
+    this._rate = options.requests / (options.perMs ?? 1000);
+    this._capacity = options.burst ?? options.requests;
+    this._adaptive = options.adaptive ?? true;
+    this._tokens = this._capacity;
+  }
+
+  /**
+   * Wait for a token. Aborting `signal` while waiting gives up the place in line.
+   * @param signal The request's abort signal
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(signal.reason as Error);
+
+    return new Promise((resolve, reject) => {
+      const waiter = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        this._waiting.splice(this._waiting.indexOf(waiter), 1);
+        if (!this._waiting.length) clearTimeout(this._timer);
+        reject(signal!.reason as Error);
+      };
+
+      this._waiting.push(waiter);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this._drain();
+    });
+  }
+
+  /**
+   * Adapt to the server's view of the limit from `RateLimit-Remaining` and `RateLimit-Reset`.
+   * When no requests remain, dispatch pauses until the reset.
+   * @param headers The response headers
+   */
+  update(headers: Headers): void {
+    const raw = headers.get("RateLimit-Remaining");
+    const remaining = raw === null ? NaN : Number(raw);
+    if (!this._adaptive || !Number.isFinite(remaining)) return;
+
+    this._refill();
+    this._tokens = Math.min(this._tokens, Math.max(0, remaining));
+    if (remaining < 1) {
+      const reset = RetryUtils.parseDelay(headers.get("RateLimit-Reset"));
+      if (reset !== undefined) this._pausedUntil = Math.max(this._pausedUntil, Date.now() + reset);
+    }
+  }
+
+  /**
+   * Add the tokens accumulated since the last refill
+   */
+  private _refill(): void {
+    const now = Date.now();
+    this._tokens = Math.min(this._capacity, this._tokens + (now - this._last) * this._rate);
+    this._last = now;
+  }
+
+  /**
+   * Dispatch as many waiters as tokens allow, and schedule the next dispatch
+   */
+  private _drain(): void {
+    clearTimeout(this._timer);
+    this._timer = undefined;
+    this._refill();
+
+    const now = Date.now();
+    while (this._waiting.length && now >= this._pausedUntil && this._tokens >= 1) {
+      this._tokens -= 1;
+      this._waiting.shift()!();
+    }
+    if (!this._waiting.length) return;
+
+    const wait = Math.max(this._pausedUntil - now, (1 - this._tokens) / this._rate);
+    this._timer = setTimeout(() => this._drain(), Math.max(1, Math.ceil(wait)));
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * A network call shared by identical in-flight requests
+ */
+type SharedFetch = {
+  promise: Promise<Response>;
+  controller: AbortController;
+  waiting: number;
+  settled: boolean;
+};
+
+/**
+ * Utility class for sharing one network call between identical in-flight requests
+ * @internal
+ */
+export class RequestDedupe {
+  private static _inflight = new Map<string, SharedFetch>();
+
+  /**
+   * Build the key identifying identical requests
+   * @param method The HTTP method
+   * @param url The resolved URL, including query parameters
+   * @param headers The request headers
+   * @param names Header names that take part in the key (default: all headers)
+   * @param ignored Lower-cased header names left out of the key, e.g. per-attempt trace headers
+   * @returns The dedupe key
+   */
+  static key(method: string, url: string, headers: Record<string, string>, names?: string[], ignored: string[] = []): string {
+    const selected = names?.map(name => name.toLowerCase());
+    const parts = Object.entries(headers)
+      .map(([name, value]): [string, string] => [name.toLowerCase(), value])
+      .filter(([name]) => (!selected || selected.includes(name)) && !ignored.includes(name))
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `${method} ${url} ${JSON.stringify(parts)}`;
+  }
+
+  /**
+   * Join the in-flight call for `key`, or start it.
+   * Every caller gets its own readable Response. Aborting `signal` only detaches this caller;
+   * the shared call is aborted once every caller has left before it settled.
+   * @param key The dedupe key
+   * @param run Starts the network call with the shared abort signal
+   * @param signal This caller's abort signal
+   * @returns The response
+   */
+  static fetch(key: string, run: (signal: AbortSignal) => Promise<Response>, signal?: AbortSignal): Promise<Response> {
+    if (signal?.aborted) return Promise.reject(signal.reason as Error);
+
+    let shared = RequestDedupe._inflight.get(key);
+    if (!shared) {
+      const controller = new AbortController();
+      const started: SharedFetch = { promise: run(controller.signal), controller, waiting: 0, settled: false };
+      const settle = () => {
+        started.settled = true;
+        if (RequestDedupe._inflight.get(key) === started) RequestDedupe._inflight.delete(key);
+      };
+      started.promise.then(settle, settle);
+      RequestDedupe._inflight.set(key, started);
+      shared = started;
+    }
+
+    const current = shared;
+    current.waiting++;
+
+    return new Promise<Response>((resolve, reject) => {
+      const onAbort = () => {
+        current.waiting--;
+        if (!current.waiting && !current.settled) current.controller.abort();
+        reject(signal!.reason as Error);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      current.promise.then(
+        response => {
+          if (signal?.aborted) return;
+          signal?.removeEventListener("abort", onAbort);
+          current.waiting--;
+          // The last caller takes the original, everyone else a clone
+          resolve(current.waiting ? response.clone() : response);
+        },
+        (error: unknown) => {
+          if (signal?.aborted) return;
+          signal?.removeEventListener("abort", onAbort);
+          current.waiting--;
+          reject(error as Error);
+        }
+      );
+    });
+  }
+}
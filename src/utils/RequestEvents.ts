@@ -0,0 +1,52 @@
+import type { RequestEventHandler, RequestEventMap, RequestEventName } from "../types.js";
+
+/**
+ * Registry of request lifecycle event handlers
+ * @internal
+ */
+export class RequestEvents {
+  private _handlers = new Map<RequestEventName, Set<RequestEventHandler<RequestEventName>>>();
+
+  /**
+   * Register a handler for an event
+   */
+  on<E extends RequestEventName>(event: E, handler: RequestEventHandler<E>): void {
+    const handlers = this._handlers.get(event) ?? new Set();
+    handlers.add(handler as RequestEventHandler<RequestEventName>);
+    this._handlers.set(event, handlers);
+  }
+
+  /**
+   * Remove a handler registered with `on()`
+   */
+  off<E extends RequestEventName>(event: E, handler: RequestEventHandler<E>): void {
+    this._handlers.get(event)?.delete(handler as RequestEventHandler<RequestEventName>);
+  }
+
+  /**
+   * Whether any handler is registered for an event
+   */
+  has(event: RequestEventName): boolean {
+    return !!this._handlers.get(event)?.size;
+  }
+
+  /**
+   * Call the handlers of an event. Handler errors are swallowed, so observers never break a request.
+   */
+  emit<E extends RequestEventName>(event: E, payload: RequestEventMap[E]): void {
+    for (const handler of this._handlers.get(event) ?? []) {
+      try {
+        handler(payload);
+      } catch {
+        // Ignore observer errors
+      }
+    }
+  }
+
+  /**
+   * Remove all handlers
+   */
+  clear(): void {
+    this._handlers.clear();
+  }
+}
@@ -0,0 +1,93 @@
+import type { RequestPriority } from "../enums.js";
+
+/**
+ * A request waiting for a free slot
+ */
+type Waiter = {
+  rank: number;
+  start: () => void;
+};
+
+/** Queue order for each priority; lower ranks are dispatched first */
+const RANKS: Record<RequestPriority, number> = { high: 0, auto: 1, low: 2 };
+
+/**
+ * Concurrency limiter shared by the requests of an API instance.
+ * Requests beyond the limit wait in a queue ordered by priority (high, auto, low), first come first served within a priority.
+ * @internal
+ */
+export class RequestQueue {
+  private _active = new Map<string, number>();
+  private _waiting = new Map<string, Waiter[]>();
+
+  /**
+   * @param limit Maximum number of requests in flight
+   * @param perOrigin Whether the limit applies to each origin separately
+   */
+  constructor(
+    private readonly limit: number,
+    private readonly perOrigin = false
+  ) {}
+
+  /**
+   * Wait for a free slot. Aborting `signal` while queued removes the request from the queue.
+   * @param url The request URL (for per-origin limits)
+   * @param priority The request priority
+   * @param signal The request's abort signal
+   * @returns A function releasing the slot (safe to call more than once)
+   */
+  acquire(url: string, priority?: RequestPriority, signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) return Promise.reject(signal.reason as Error);
+    const key = this.perOrigin ? RequestQueue.origin(url) : "";
+
+    return new Promise((resolve, reject) => {
+      const start = () => {
+        signal?.removeEventListener("abort", onAbort);
+        this._active.set(key, (this._active.get(key) ?? 0) + 1);
+        let released = false;
+        resolve(() => {
+          if (released) return;
+          released = true;
+          this._release(key);
+        });
+      };
+
+      const waiter: Waiter = { rank: RANKS[priority ?? "auto"] ?? RANKS.auto, start };
+      const onAbort = () => {
+        const queue = this._waiting.get(key) ?? [];
+        queue.splice(queue.indexOf(waiter), 1);
+        if (!queue.length) this._waiting.delete(key);
+        reject(signal!.reason as Error);
+      };
+
+      if ((this._active.get(key) ?? 0) < this.limit) return start();
+
+      const queue = this._waiting.get(key) ?? [];
+      const index = queue.findIndex(other => other.rank > waiter.rank);
+      queue.splice(index === -1 ? queue.length : index, 0, waiter);
+      this._waiting.set(key, queue);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  /**
+   * The origin of an absolute URL, lowercased (empty for relative URLs)
+   */
+  static origin(url: string): string {
+    return /^[a-z][\w+.-]*:\/\/[^/?#]+/i.exec(url)?.[0].toLowerCase() ?? "";
+  }
+
+  /**
+   * Free a slot and start the next waiting request
+   */
+  private _release(key: string): void {
+    const active = (this._active.get(key) ?? 1) - 1;
+    if (active) this._active.set(key, active);
+    else this._active.delete(key);
+
+    const queue = this._waiting.get(key);
+    const next = queue?.shift();
+    if (!queue?.length) this._waiting.delete(key);
+    next?.start();
+  }
+}
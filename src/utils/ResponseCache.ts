@@ -0,0 +1,301 @@
+import type { CacheEntry, ResponseCacheStore } from "../types.js";
+import type { RequestError } from "../RequestError.js";
+import { RetryUtils } from "./RetryUtils.js";
+
+/**
+ * HTTP-date formats (IMF-fixdate, RFC 850 and asctime) all start with the day name
+ */
+const HTTP_DATE = /^[a-z]{3,9},? /i;
+
+/**
+ * In-memory least-recently-used response cache store.
+ * Once `maxEntries` is reached, the least recently read or written entry is evicted.
+ *
+ * @example
+ * ```typescript
+ * const api = createApi()
+ *   .withBaseURL('https://api.example.com')
+ *   .withResponseCache({ store: new MemoryCacheStore(500) });
+ * ```
+ */
+export class MemoryCacheStore implements ResponseCacheStore {
+  private _map = new Map<string, CacheEntry>();
+
+  /**
+   * @param maxEntries - Maximum number of responses to keep (default: 100)
+   */
+  constructor(private readonly maxEntries = 100) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this._map.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this._map.delete(key);
+      this._map.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this._map.delete(key);
+    this._map.set(key, entry);
+    if (this._map.size > this.maxEntries) this._map.delete(this._map.keys().next().value!);
+  }
+
+  delete(key: string): void {
+    this._map.delete(key);
+  }
+
+  /**
+   * Remove all stored responses
+   */
+  clear(): void {
+    this._map.clear();
+  }
+
+  /**
+   * Number of stored responses
+   */
+  get size(): number {
+    return this._map.size;
+  }
+}
+
+/**
+ * Helpers implementing HTTP cache semantics for the response cache
+ * @internal
+ */
+export class ResponseCache {
+  private static _shared?: MemoryCacheStore;
+
+  /**
+   * Cache keys with a stale-while-revalidate refresh in flight
+   */
+  static readonly refreshing = new Set<string>();
+
+  /**
+   * The store used when no store is configured, shared by all requests
+   */
+  static shared(): MemoryCacheStore {
+    return (ResponseCache._shared ??= new MemoryCacheStore());
+  }
+
+  /**
+   * Parse a Cache-Control header into lower-cased directives
+   * @param header The Cache-Control header value
+   * @returns Directive names mapped to their values (empty string for flag directives)
+   */
+  static directives(header: string | null | undefined): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const part of (header || "").split(",")) {
+      const [name, value = ""] = part.split("=");
+      if (name.trim()) result[name.trim().toLowerCase()] = value.trim().replace(/^"|"$/g, "");
+    }
+    return result;
+  }
+
+  /**
+   * Case-insensitive lookup in a plain headers record
+   */
+  static header(headers: Record<string, string>, name: string): string | undefined {
+    const key = Object.keys(headers).find(k => k.toLowerCase() === name);
+    return key === undefined ? undefined : headers[key];
+  }
+
+  /**
+   * Whether the request headers allow reading from / writing to the cache
+   */
+  static bypass(headers: Record<string, string>): boolean {
+    return "no-store" in ResponseCache.directives(ResponseCache.header(headers, "cache-control"));
+  }
+
+  /**
+   * Whether the request carries credentials (`Authorization` or `Cookie`)
+   */
+  static credentialed(headers: Record<string, string>): boolean {
+    return ResponseCache.header(headers, "authorization") !== undefined || ResponseCache.header(headers, "cookie") !== undefined;
+  }
+
+  /**
+   * Whether a response may be shared between credentials (`Cache-Control: public` or `s-maxage`)
+   */
+  private static _shareable(cacheControl: Record<string, string>): boolean {
+    return "public" in cacheControl || "s-maxage" in cacheControl;
+  }
+
+  /**
+   * Whether a stored entry may be used for a request with the given headers
+   * The varying headers must match, and requests with credentials only use entries marked shareable.
+   */
+  static matches(entry: CacheEntry, headers: Record<string, string>): boolean {
+    if (!Object.entries(entry.vary || {}).every(([name, value]) => (ResponseCache.header(headers, name) ?? "") === value)) return false;
+    if (!ResponseCache.credentialed(headers)) return true;
+    const cacheControl = entry.headers.find(([name]) => name.toLowerCase() === "cache-control")?.[1];
+    return ResponseCache._shareable(ResponseCache.directives(cacheControl));
+  }
+
+  /**
+   * The key of the variant of an entry matching the given headers (see `save()`)
+   * @param key The cache key of the URL
+   * @param entry A stored entry of the URL, whose `Vary` header names are used
+   * @param headers The request headers
+   * @returns The variant key, or the key itself for entries without `Vary`
+   */
+  static variantKey(key: string, entry: CacheEntry, headers: Record<string, string>): string {
+    const names = Object.keys(entry.vary || {});
+    return names.length ? `${key} ${JSON.stringify(names.map(name => ResponseCache.header(headers, name) ?? ""))}` : key;
+  }
+
+  /**
+   * Store an entry under its key and, for responses with `Vary`, under its variant key
+   * The key always holds the latest variant, and tells lookups which headers select the other variants.
+   * @param store The cache store
+   * @param key The cache key of the URL
+   * @param entry The entry to store
+   */
+  static async save(store: ResponseCacheStore, key: string, entry: CacheEntry): Promise<void> {
+    await store.set(key, entry);
+    const variant = ResponseCache.variantKey(key, entry, entry.vary || {});
+    if (variant !== key) await store.set(variant, entry);
+  }
+
+  /**
+   * Conditional request headers for revalidating an entry (`If-None-Match` / `If-Modified-Since`)
+   * @param entry The stored entry
+   * @returns The headers to send, empty if the entry has no validators
+   */
+  static validators(entry: CacheEntry): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const [name, value] of entry.headers) {
+      if (name === "etag") result["If-None-Match"] = value;
+      else if (name === "last-modified") result["If-Modified-Since"] = value;
+    }
+    return result;
+  }
+
+  /**
+   * Build a cache entry from a network response, honoring Cache-Control, Expires and Vary
+   * Reads the body from a clone, so the original response stays readable.
+   * `no-cache` responses are only stored when they carry validators, and are revalidated on every use.
+   * Responses without a lifetime (`max-age`, `s-maxage` or `Expires`) or a validator aren't stored, and responses to requests
+   * with credentials only when marked `public` or `s-maxage`.
+   * @param response The network response
+   * @param headers The request headers (for Vary and credentials)
+   * @param ttl Default lifetime in milliseconds
+   * @returns The entry, or undefined if the response must not be stored
+   */
+  static async toEntry(response: Response, headers: Record<string, string>, ttl: number): Promise<CacheEntry | undefined> {
+    const cacheControl = ResponseCache.directives(response.headers.get("cache-control"));
+    if (response.status !== 200 || "no-store" in cacheControl) return undefined;
+    const hasValidator = response.headers.has("etag") || response.headers.has("last-modified");
+    if ("no-cache" in cacheControl && !hasValidator) return undefined;
+    if (!("max-age" in cacheControl) && !("s-maxage" in cacheControl) && !response.headers.has("expires") && !hasValidator) return undefined;
+    if (ResponseCache.credentialed(headers) && !ResponseCache._shareable(cacheControl)) return undefined;
+
+    const varyNames = (response.headers.get("vary") || "")
+      .split(",")
+      .map(name => name.trim().toLowerCase())
+      .filter(Boolean);
+    if (varyNames.includes("*")) return undefined;
+
+    const vary: Record<string, string> = {};
+    for (const name of varyNames) vary[name] = ResponseCache.header(headers, name) ?? "";
+
+    const responseHeaders: Array<[string, string]> = [];
+    response.headers.forEach((value, name) => responseHeaders.push([name, value]));
+
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers: responseHeaders,
+      body: await response.clone().arrayBuffer(),
+      expires: ResponseCache._expires(response.headers, ttl),
+      vary,
+      ...ResponseCache._staleness(response.headers),
+    };
+  }
+
+  /**
+   * Update a stored entry after the server confirmed it with a 304 Not Modified.
+   * Headers sent with the 304 replace the stored ones and the lifetime starts over.
+   * @param entry The revalidated entry
+   * @param response The 304 response
+   * @param ttl Default lifetime in milliseconds
+   * @returns The refreshed entry
+   */
+  static refresh(entry: CacheEntry, response: Response, ttl: number): CacheEntry {
+    const headers = new Headers(entry.headers);
+    response.headers.forEach((value, name) => {
+      // Body framing headers of the 304 don't describe the stored body
+      if (name !== "content-length" && name !== "content-encoding" && name !== "transfer-encoding") headers.set(name, value);
+    });
+
+    const merged: Array<[string, string]> = [];
+    headers.forEach((value, name) => merged.push([name, value]));
+    return { ...entry, headers: merged, expires: ResponseCache._expires(headers, ttl), ...ResponseCache._staleness(headers) };
+  }
+
+  /**
+   * Stale windows from the `stale-while-revalidate` and `stale-if-error` directives
+   */
+  private static _staleness(headers: Headers): Pick<CacheEntry, "staleWhileRevalidate" | "staleIfError"> {
+    const cacheControl = ResponseCache.directives(headers.get("cache-control"));
+    return {
+      staleWhileRevalidate: RetryUtils.parseDelay(cacheControl["stale-while-revalidate"]),
+      staleIfError: RetryUtils.parseDelay(cacheControl["stale-if-error"]),
+    };
+  }
+
+  /**
+   * Expiry timestamp from `Cache-Control` (no-cache, s-maxage, max-age) or `Expires`, falling back to the default ttl
+   * for responses with only validators. The store may be shared between credentials, so `s-maxage` comes first.
+   * The time the response already spent in upstream caches (`Age`) is taken off server-provided lifetimes.
+   * A malformed `max-age` or `Expires` (e.g. `Expires: -1`) means the response is already stale.
+   */
+  private static _expires(headers: Headers, ttl: number): number {
+    const now = Date.now();
+    const cacheControl = ResponseCache.directives(headers.get("cache-control"));
+    if ("no-cache" in cacheControl) return now;
+
+    const age = (ResponseCache._seconds(headers.get("age")) ?? 0) * 1000;
+    const maxAge = cacheControl["s-maxage"] ?? cacheControl["max-age"];
+    if (maxAge !== undefined) {
+      const seconds = ResponseCache._seconds(maxAge);
+      return seconds === undefined ? now : now + seconds * 1000 - age;
+    }
+
+    const expires = headers.get("expires");
+    if (expires === null) return now + ttl;
+    const date = HTTP_DATE.test(expires.trim()) ? Date.parse(expires) : NaN;
+    if (Number.isNaN(date)) return now;
+    // Expires is relative to the server clock, so measure the lifetime from its Date header when there is one
+    const served = Date.parse(headers.get("date") ?? "");
+    return now + date - (Number.isNaN(served) ? now : served) - age;
+  }
+
+  /**
+   * Parse a delta-seconds value (non-negative integer), or undefined when malformed
+   */
+  private static _seconds(value: string | null | undefined): number | undefined {
+    const trimmed = value?.trim();
+    return trimmed && /^\d+$/.test(trimmed) ? Number(trimmed) : undefined;
+  }
+
+  /**
+   * Whether a stale entry may be served instead of a failed refresh (`stale-if-error`)
+   * Only network errors, timeouts and 5xx responses qualify; aborts never do.
+   * @param entry The stale entry
+   * @param error The error of the refresh
+   */
+  static usableOnError(entry: CacheEntry, error: RequestError): boolean {
+    if (entry.staleIfError === undefined || error.isAborted || (error.status !== undefined && error.status < 500)) return false;
+    return Date.now() - entry.expires <= entry.staleIfError;
+  }
+
+  /**
+   * Recreate a Response from a cache entry
+   */
+  static toResponse(entry: CacheEntry): Response {
+    return new Response(entry.body.slice(0), { status: entry.status, statusText: entry.statusText, headers: entry.headers });
+  }
+}
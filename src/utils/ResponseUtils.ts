@@ -0,0 +1,66 @@
+/**
+ * Helpers for rebuilding responses around a wrapped body
+ * @internal
+ */
+export class ResponseUtils {
+  /**
+   * Whether a response has a Content-Encoding other than `identity`
+   * Fetch decodes such bodies, so the bytes read don't match `Content-Length` or byte ranges.
+   */
+  static encoded(response: Response): boolean {
+    const encoding = response.headers.get("content-encoding")?.trim().toLowerCase();
+    return !!encoding && encoding !== "identity";
+  }
+
+  /**
+   * A copy of a response with another body
+   * Unlike `new Response()`, the copy keeps `url`, `redirected` and `type`.
+   * @param response The original response
+   * @param body The new body
+   */
+  static withBody(response: Response, body: ReadableStream<Uint8Array>): Response {
+    const copy = new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+    Object.defineProperties(copy, {
+      url: { value: response.url },
+      redirected: { value: response.redirected },
+      type: { value: response.type },
+    });
+    return copy;
+  }
+
+  /**
+   * A copy of a response that calls `onEnd` once, when its body is read to the end, fails or is cancelled
+   * Responses without a body call `onEnd` right away and are returned as they are.
+   * @param response The original response
+   * @param onEnd Called when the body is done, with the bytes read and whether the body was read to the end
+   */
+  static onBodyEnd(response: Response, onEnd: (bytes: number, complete: boolean) => void): Response {
+    if (!response.body) {
+      onEnd(0, true);
+      return response;
+    }
+    const reader = response.body.getReader();
+    let bytes = 0;
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { done, value } = await reader.read();
+          if (!done) {
+            bytes += value.byteLength;
+            return controller.enqueue(value);
+          }
+          onEnd(bytes, true);
+          controller.close();
+        } catch (error) {
+          onEnd(bytes, false);
+          throw error;
+        }
+      },
+      cancel(reason) {
+        onEnd(bytes, false);
+        return reader.cancel(reason);
+      },
+    });
+    return ResponseUtils.withBody(response, body);
+  }
+}
@@ -0,0 +1,103 @@
+import { RequestError } from "../RequestError.js";
+import { ResponseUtils } from "./ResponseUtils.js";
+
+/**
+ * Re-issues the request from a byte offset, with the given `If-Range` validator
+ */
+type Refetch = (offset: number, ifRange: string | undefined) => Promise<Response>;
+
+/**
+ * Helpers for resuming interrupted downloads with HTTP Range requests
+ * @internal
+ */
+export class Resume {
+  /**
+   * Make a response whose body resumes from the first missing byte when reading fails mid-stream.
+   * A `206` continuing at the right offset is stitched on; a `200` (ranges ignored) restarts the download
+   * and skips the bytes already delivered, unless its validator shows that the resource changed.
+   * Content-coded responses are not resumed: fetch decodes them, so the bytes read don't map to range offsets.
+   * @param response The network response
+   * @param refetch Re-issues the request from an offset
+   * @param maxResumes Maximum number of resumes
+   * @param signal The request's abort signal; aborted downloads are not resumed
+   * @returns The response with a resuming body (the original if it has no body or is content-coded)
+   */
+  static stream(response: Response, refetch: Refetch, maxResumes: number, signal?: AbortSignal): Response {
+    if (!response.body || ResponseUtils.encoded(response)) return response;
+    const validator = Resume.validator(response);
+    let reader: ReadableStreamDefaultReader<Uint8Array> = response.body.getReader();
+    let offset = 0;
+    let resumes = 0;
+
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        for (;;) {
+          try {
+            const { done, value } = await reader.read();
+            if (done) return controller.close();
+            offset += value.byteLength;
+            return controller.enqueue(value);
+          } catch (error) {
+            if (signal?.aborted || resumes >= maxResumes) throw error;
+            resumes++;
+            reader = Resume._continue(await refetch(offset, validator), offset, validator, response.url).getReader();
+          }
+        }
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    });
+
+    return ResponseUtils.withBody(response, body);
+  }
+
+  /**
+   * The `If-Range` validator of a response: a strong ETag, otherwise Last-Modified
+   */
+  static validator(response: Response): string | undefined {
+    const etag = response.headers.get("etag");
+    if (etag && !etag.startsWith("W/")) return etag;
+    return response.headers.get("last-modified") ?? undefined;
+  }
+
+  /**
+   * The body of a resumed response, positioned at `offset`
+   * @throws RequestError if the response doesn't continue the same resource
+   */
+  private static _continue(response: Response, offset: number, validator: string | undefined, url: string): ReadableStream<Uint8Array> {
+    const fail = (reason: string) => {
+      void response.body?.cancel();
+      return new RequestError(`Resume: ${reason}`, url, "GET", { status: response.status, response });
+    };
+
+    if (ResponseUtils.encoded(response)) throw fail("encoded response");
+    let start = 0;
+    if (response.status === 206) {
+      const match = /^bytes (\d+)-\d+\/(?:\d+|\*)$/.exec(response.headers.get("content-range")?.trim() ?? "");
+      start = match ? Number(match[1]) : NaN;
+      if (!(start <= offset)) throw fail("bad range");
+    } else if (validator && Resume.validator(response) !== validator) {
+      throw fail("resource changed");
+    }
+    if (!response.body) throw fail("no body");
+    return start === offset ? response.body : response.body.pipeThrough(Resume._skip(offset - start));
+  }
+
+  /**
+   * Transform dropping the first `count` bytes
+   */
+  private static _skip(count: number): TransformStream<Uint8Array, Uint8Array> {
+    let left = count;
+    return new TransformStream({
+      transform(chunk, controller) {
+        if (left >= chunk.byteLength) {
+          left -= chunk.byteLength;
+          return;
+        }
+        controller.enqueue(left ? chunk.subarray(left) : chunk);
+        left = 0;
+      },
+    });
+  }
+}
@@ -0,0 +1,37 @@
+import type { RequestError } from "../RequestError.js";
+
+/**
+ * Utility class for retry timing hints sent by servers
+ */
+export class RetryUtils {
+  /**
+   * Parses a delay header value given either in seconds or as an HTTP date
+   * @param value The raw header value (e.g. `"120"` or `"Wed, 21 Oct 2015 07:28:00 GMT"`)
+   * @param now The current time in milliseconds, used to resolve HTTP dates
+   * @returns The delay in milliseconds, or undefined if the value cannot be parsed
+   */
+  static parseDelay(value: string | null | undefined, now = Date.now()): number | undefined {
+    const trimmed = value?.trim();
+    if (!trimmed) return undefined;
+    if (/^[\d.+-]+$/.test(trimmed)) {
+      const seconds = Number(trimmed);
+      return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+    }
+
+    const date = Date.parse(trimmed);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+  }
+
+  /**
+   * Extracts the server-requested wait from a 429 or 503 error response.
+   * `Retry-After` takes precedence over `RateLimit-Reset`.
+   * @param error The error of the failed attempt
+   * @returns The requested wait in milliseconds, or undefined if the server did not provide one
+   */
+  static getRetryAfter(error: RequestError): number | undefined {
+    if (error.status !== 429 && error.status !== 503) return undefined;
+    const headers = error.response?.headers;
+    if (!headers) return undefined;
+    return RetryUtils.parseDelay(headers.get("Retry-After")) ?? RetryUtils.parseDelay(headers.get("RateLimit-Reset"));
+  }
+}
@@ -0,0 +1,53 @@
+import { type RequestError, errorMessage } from "../RequestError.js";
+import type { StandardSchemaIssue, StandardSchemaResult, StandardSchemaV1 } from "../types.js";
+
+/**
+ * Helpers for validating data with Standard Schema validators (Zod, Valibot, ArkType, ...)
+ * @internal
+ */
+export class Schema {
+  /**
+   * Whether a value implements the Standard Schema interface
+   * Some validators (e.g. ArkType) are functions carrying the interface.
+   */
+  static is(value: unknown): value is StandardSchemaV1 {
+    if ((typeof value !== "object" && typeof value !== "function") || value === null) return false;
+    const standard = (value as Partial<StandardSchemaV1>)["~standard"];
+    return typeof standard === "object" && standard !== null && typeof standard.validate === "function";
+  }
+
+  /**
+   * Validate a value
+   * @param schema The schema
+   * @param value The value to validate
+   * @param fail Creates the error thrown when validation fails or the validator throws
+   * @returns The validated (and possibly transformed) value
+   * @throws RequestError from `fail`, with the issues found
+   */
+  static async validate<Output>(
+    schema: StandardSchemaV1<unknown, Output>,
+    value: unknown,
+    fail: (message: string, issues?: ReadonlyArray<StandardSchemaIssue>) => RequestError
+  ): Promise<Output> {
+    let result: StandardSchemaResult<Output>;
+    try {
+      result = await schema["~standard"].validate(value);
+    } catch (error) {
+      throw fail(`Schema: ${errorMessage(error)}`);
+    }
+    if (result.issues) throw fail(`Schema: ${Schema.summary(result.issues)}`, result.issues);
+    return result.value;
+  }
+
+  /**
+   * A one-line summary of validation issues, e.g. `items.0.id: Expected number; name: Required`
+   */
+  static summary(issues: ReadonlyArray<StandardSchemaIssue>): string {
+    return issues
+      .map(issue => {
+        const path = issue.path?.map(segment => String(typeof segment === "object" ? segment.key : segment)).join(".");
+        return path ? `${path}: ${issue.message}` : issue.message;
+      })
+      .join("; ");
+  }
+}
@@ -0,0 +1,56 @@
+import type { BodySerializer } from "../types.js";
+import { RequestError } from "../RequestError.js";
+
+/**
+ * Registry of body serializers by media type
+ * @internal
+ */
+export class Serializers {
+  private _serializers = new Map<string, BodySerializer>();
+
+  /**
+   * The media type of a Content-Type header, lowercased and without parameters (`application/json; charset=utf-8` -> `application/json`)
+   */
+  static mediaType(contentType: string | null | undefined): string {
+    return (contentType ?? "").split(";")[0].trim().toLowerCase();
+  }
+
+  /**
+   * Whether a media type is JSON (`application/json` or a `+json` suffix like `application/problem+json`)
+   */
+  static isJson(mediaType: string): boolean {
+    return mediaType === "application/json" || mediaType.endsWith("+json");
+  }
+
+  /**
+   * Register a serializer, or remove it with null
+   * @throws RequestError if the content type is empty or the serializer has neither `serialize` nor `parse`
+   */
+  set(contentType: string, serializer: BodySerializer | null): void {
+    const type = Serializers.mediaType(contentType);
+    if (!type) throw new RequestError(`Bad serializer: ${contentType}`, "", "");
+    if (serializer === null) {
+      this._serializers.delete(type);
+      return;
+    }
+    const { serialize, parse } = serializer ?? {};
+    if ((serialize !== undefined && typeof serialize !== "function") || (parse !== undefined && typeof parse !== "function") || (!serialize && !parse)) {
+      throw new RequestError(`Bad serializer: ${contentType}`, "", "");
+    }
+    this._serializers.set(type, serializer);
+  }
+
+  /**
+   * Find the serializer of a Content-Type
+   */
+  get(contentType: string | null | undefined): BodySerializer | undefined {
+    return this._serializers.get(Serializers.mediaType(contentType));
+  }
+
+  /**
+   * Remove all serializers
+   */
+  clear(): void {
+    this._serializers.clear();
+  }
+}
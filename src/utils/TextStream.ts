@@ -0,0 +1,61 @@
+import { RequestError, errorMessage, toError } from "../RequestError.js";
+
+/**
+ * Helpers for reading a response body as text, as it arrives
+ * @internal
+ */
+export class TextStream {
+  /**
+   * Decode a byte stream as UTF-8 text, chunk by chunk
+   * Multi-byte characters split across chunks are reassembled. The stream is cancelled when the consumer stops early.
+   * @param body The byte stream
+   * @param fail Creates the error thrown when reading fails; aborted reads throw an abort error instead
+   */
+  static async *chunks(body: ReadableStream<Uint8Array>, fail: (message: string) => RequestError): AsyncGenerator<string, void, undefined> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+
+    try {
+      for (;;) {
+        let chunk: ReadableStreamReadResult<Uint8Array>;
+        try {
+          chunk = await reader.read();
+        } catch (error) {
+          const failure = fail(`Read: ${errorMessage(error)}`);
+          // An abort (e.g. withAbortController) cuts the body off mid-read
+          throw toError(error).name === "AbortError" ? RequestError.abortError(failure.url, failure.method) : failure;
+        }
+        const text = chunk.done ? decoder.decode() : decoder.decode(chunk.value, { stream: true });
+        if (text) yield text;
+        if (chunk.done) return;
+      }
+    } finally {
+      // Stop the download when the consumer leaves early
+      await reader.cancel().catch(() => {});
+    }
+  }
+
+  /**
+   * Read a byte stream as text lines, as chunks arrive
+   * Line breaks (`\n`, `\r\n` or `\r`) split across chunks are reassembled; a final line without a line break
+   * is yielded too, unless empty.
+   * @param body The byte stream
+   * @param fail Creates the error thrown when reading fails
+   */
+  static async *lines(body: ReadableStream<Uint8Array>, fail: (message: string) => RequestError): AsyncGenerator<string, void, undefined> {
+    let buffer = "";
+    for await (const text of TextStream.chunks(body, fail)) {
+      buffer += text;
+      // Keep a trailing CR until the next chunk shows whether a LF follows
+      const end = buffer.endsWith("\r") ? buffer.length - 1 : buffer.length;
+      const lines = buffer.slice(0, end).split(/\r\n|\r|\n/);
+      buffer = lines.pop()! + buffer.slice(end);
+      yield* lines;
+    }
+
+    const lines = buffer.split(/\r\n|\r|\n/);
+    const last = lines.pop()!;
+    yield* lines;
+    if (last) yield last;
+  }
+}
@@ -0,0 +1,76 @@
+import type { SpanAttributes, Tracer, TracingSpan } from "../types.js";
+import type { RequestError } from "../RequestError.js";
+
+/** OpenTelemetry's `SpanStatusCode.ERROR` */
+const STATUS_ERROR = 2;
+
+/**
+ * Helpers for creating request spans with HTTP semantic-convention attributes
+ * @internal
+ */
+export class Tracing {
+  /**
+   * Start a span for a request or one of its attempts
+   * @param tracer The tracer
+   * @param method The HTTP method
+   * @param url The request URL
+   * @param parent The request's span, when starting an attempt span
+   * @param attempt The attempt number (1-based); retries get `http.request.resend_count`
+   */
+  static start(tracer: Tracer, method: string, url: string, parent?: TracingSpan, attempt = 1): TracingSpan {
+    const attributes: SpanAttributes = { "http.request.method": method, "url.full": url };
+    try {
+      const { hostname, port, protocol } = new URL(url);
+      attributes["server.address"] = hostname;
+      attributes["server.port"] = Number(port) || (protocol === "https:" ? 443 : 80);
+    } catch {
+      // Relative URL, no server attributes
+    }
+    if (attempt > 1) attributes["http.request.resend_count"] = attempt - 1;
+    return tracer.startSpan(method, { attributes, parent });
+  }
+
+  /**
+   * W3C trace context headers for a span
+   * @returns `traceparent`, plus `tracestate` when the span has one
+   */
+  static headers(span: TracingSpan): Record<string, string> {
+    const { traceId, spanId, traceFlags, traceState } = span.spanContext();
+    const headers: Record<string, string> = { traceparent: `00-${traceId}-${spanId}-${(traceFlags & 0xff).toString(16).padStart(2, "0")}` };
+    const state = traceState?.serialize();
+    if (state) headers.tracestate = state;
+    return headers;
+  }
+
+  /**
+   * End a span with the response status
+   */
+  static end(span: TracingSpan | undefined, status: number): void {
+    if (!span) return;
+    span.setAttribute("http.response.status_code", status);
+    span.end();
+  }
+
+  /**
+   * End a span as failed, with the `error.type` of the error
+   */
+  static fail(span: TracingSpan | undefined, error: RequestError): void {
+    if (!span) return;
+    if (error.status !== undefined) span.setAttribute("http.response.status_code", error.status);
+    span.setAttribute("error.type", Tracing.errorType(error));
+    span.setStatus({ code: STATUS_ERROR, message: error.message });
+    span.end();
+  }
+
+  /**
+   * Low-cardinality `error.type` for a RequestError: the status code for HTTP errors, otherwise the kind of failure
+   */
+  static errorType(error: RequestError): string {
+    if (error.status !== undefined) return String(error.status);
+    if (error.isDeadline) return "deadline";
+    if (error.isTimeout) return "timeout";
+    if (error.isAborted) return "aborted";
+    if (error.isCircuitOpen) return "circuit_open";
+    return "network";
+  }
+}
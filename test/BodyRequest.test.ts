@@ -140,15 +140,14 @@ describe("BodyRequest", { timeout: 10000 }, () => {
     assert.equal(options.body, null);
   });
 
-  it("should throw error for unstringifiable body", () => {
+  it("should throw error for unstringifiable body", async () => {
     // Arrange
     const circularObj: any = {};
     circularObj.self = circularObj;
 
     // Act & Assert
-    assert.throws(() => {
-      new PostRequest("https://api.example.com/test").withBody(circularObj as Body);
-    }, /Bad JSON/);
+    await assert.rejects(new PostRequest("https://api.example.com/test").withBody(circularObj as Body).getResponse(), /Bad JSON/);
+    assert.equal(FetchMock.mock.calls.length, 0);
   });
 
   it("should respect existing Content-Type header when using withBody", async () => {
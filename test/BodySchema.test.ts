@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { describe, it, afterEach } from "node:test";
+import create, { type StandardSchemaV1 } from "../src/index.js";
+import { RequestError } from "../src/RequestError.js";
+import { Config } from "../src/utils/Config.js";
+
+interface NewUser {
+  name: string;
+  email: string;
+}
+
+/**
+ * Minimal Standard Schema validator for `{ name: string; email: string }`, standing in for Zod, Valibot, etc.
+ * The validated name is trimmed to check that transformed output is sent.
+ */
+const newUserSchema = (async = false): StandardSchemaV1<NewUser> => {
+  const validate = (value: unknown) => {
+    const user = value as Partial<NewUser>;
+    if (typeof user.name !== "string" || !user.name.trim()) return { issues: [{ message: "Required", path: ["name"] }] };
+    if (typeof user.email !== "string" || !user.email.includes("@")) return { issues: [{ message: "Invalid email", path: ["email"] }] };
+    return { value: { name: user.name.trim(), email: user.email } };
+  };
+  return {
+    "~standard": {
+      version: 1,
+      vendor: "test",
+      validate: value => (async ? Promise.resolve(validate(value)) : validate(value)),
+    },
+  };
+};
+
+/**
+ * Fetch stub recording the bodies sent
+ */
+const recorder = () => {
+  const bodies: unknown[] = [];
+  const fetchFn = (_url: RequestInfo | URL, init?: RequestInit) => {
+    bodies.push(init?.body);
+    return Promise.resolve(new Response("{}", { headers: { "content-type": "application/json" } }));
+  };
+  return { bodies, fetchFn };
+};
+
+describe("Request Body Validation", { timeout: 10000 }, () => {
+  afterEach(() => {
+    Config.getInstance().reset();
+  });
+
+  it("should send the validated, transformed body", async () => {
+    for (const async of [false, true]) {
+      const { bodies, fetchFn } = recorder();
+      await create.post("https://api.example.com/users").withFetch(fetchFn).withBody({ name: "  Ada ", email: "ada@example.com", admin: true }, newUserSchema(async)).getResponse();
+      assert.deepEqual(bodies, ['{"name":"Ada","email":"ada@example.com"}']);
+    }
+  });
+
+  it("should throw a RequestError with the issues without sending the request", async () => {
+    const { bodies, fetchFn } = recorder();
+
+    await assert.rejects(create.put("https://api.example.com/users/1").withFetch(fetchFn).withBody({ name: "Ada", email: "nope" }, newUserSchema()).getJson(), (error: unknown) => {
+      assert(error instanceof RequestError);
+      assert.equal(error.message, "Schema: email: Invalid email");
+      assert.equal(error.method, "PUT");
+      assert.equal(error.status, undefined);
+      assert.deepEqual(error.issues, [{ message: "Invalid email", path: ["email"] }]);
+      return true;
+    });
+    assert.equal(bodies.length, 0);
+  });
+
+  it("should stringify the schema output rather than the input", async () => {
+    const counter: StandardSchemaV1 = {
+      "~standard": { version: 1, vendor: "test", validate: value => ({ value: { count: String((value as { count: bigint }).count) } }) },
+    };
+    const { bodies, fetchFn } = recorder();
+
+    // BigInt can't be stringified, but the schema turns it into a string
+    await create
+      .post("https://api.example.com/counters")
+      .withFetch(fetchFn)
+      .withBody({ count: BigInt(10) }, counter)
+      .getResponse();
+    assert.deepEqual(bodies, ['{"count":"10"}']);
+
+    await assert.rejects(
+      create
+        .post("https://api.example.com/counters")
+        .withFetch(fetchFn)
+        .withBody({}, { "~standard": { version: 1, vendor: "test", validate: () => ({ value: { count: BigInt(10) } }) } })
+        .getResponse(),
+      (error: RequestError) => error instanceof RequestError && error.message.startsWith("Bad JSON:")
+    );
+  });
+
+  it("should use the schema of the latest withBody call", async () => {
+    const { bodies, fetchFn } = recorder();
+    const request = create.post("https://api.example.com/users").withFetch(fetchFn).withBody({ name: "Ada", email: "ada@example.com" }, newUserSchema());
+
+    await request.getResponse();
+    request.withBody({ name: "", email: "ada@example.com" }, newUserSchema());
+    await assert.rejects(request.getResponse(), (error: RequestError) => error.message === "Schema: name: Required");
+    // withBody without a schema stops validating
+    await request.withBody({ name: "" }).getResponse();
+    assert.deepEqual(bodies, ['{"name":"Ada","email":"ada@example.com"}', '{"name":""}']);
+  });
+
+  it("should validate and serialize the body when sent, whatever the order of builder calls", async () => {
+    Config.getInstance().setSerializer("application/x-bigint", {
+      serialize: value => JSON.stringify(value, (_key, item: unknown) => (typeof item === "bigint" ? item.toString() : item)),
+    });
+    const { bodies, fetchFn } = recorder();
+    const user = { name: "Ada", email: "ada@example.com", id: BigInt(1) };
+
+    // BigInt can't be stringified as JSON, but the serializer of the Content-Type set later handles it
+    await create.post("https://api.example.com/users").withFetch(fetchFn).withBody(user).withContentType("application/x-bigint").getResponse();
+    await create.post("https://api.example.com/users").withFetch(fetchFn).withContentType("application/x-bigint").withBody(user).getResponse();
+    assert.deepEqual(bodies, ['{"name":"Ada","email":"ada@example.com","id":"1"}', '{"name":"Ada","email":"ada@example.com","id":"1"}']);
+
+    // Validation and the JSON check run when sent, with the same outcome in both orders
+    const request = () => create.post("https://api.example.com/users").withFetch(fetchFn);
+    for (const sent of [request().withBody(user).withContentType("application/json"), request().withContentType("application/json").withBody(user)]) {
+      await assert.rejects(sent.getResponse(), (error: RequestError) => error.message.startsWith("Bad JSON:"));
+    }
+    for (const sent of [
+      request()
+        .withBody({ ...user, email: "nope" }, newUserSchema())
+        .withContentType("application/x-bigint"),
+      request()
+        .withContentType("application/x-bigint")
+        .withBody({ ...user, email: "nope" }, newUserSchema()),
+    ]) {
+      await assert.rejects(sent.getResponse(), (error: RequestError) => error.message === "Schema: email: Invalid email");
+    }
+    assert.equal(bodies.length, 2);
+  });
+
+  it("should reject values that aren't Standard Schema validators", () => {
+    assert.throws(
+      () => create.post("https://api.example.com/users").withBody({}, { parse: () => null } as unknown as StandardSchemaV1),
+      (error: RequestError) => error instanceof RequestError && error.message === "Bad schema"
+    );
+  });
+});
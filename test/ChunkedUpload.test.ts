@@ -0,0 +1,204 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import create, { type FetchFunction, type RequestError, type TransferProgress, type UploadChunk } from "../src/index.js";
+
+const DATA = "0123456789abcdefghij";
+
+/**
+ * Fetch stub that stores the chunks it receives; `statuses` gives the status of each request in order
+ */
+const server = (statuses: number[] = []) => {
+  const received: Array<{ range: string; body: string }> = [];
+  let cancelled = 0;
+  let requests = 0;
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const fetchFn: FetchFunction = async (_url, init) => {
+    const status = statuses[requests++] ?? 200;
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    const body = await new Response(init?.body).text();
+    await new Promise(resolve => setTimeout(resolve, 5));
+    inFlight--;
+    if (status < 300) received.push({ range: (init?.headers as Record<string, string>)["Content-Range"], body });
+    const reply = new TextEncoder().encode(JSON.stringify({ stored: body.length }));
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(reply);
+        controller.close();
+      },
+      cancel: () => void cancelled++,
+    });
+    return new Response(stream, { status });
+  };
+  return { fetchFn, received, maxInFlight: () => maxInFlight, cancelled: () => cancelled };
+};
+
+describe("Chunked Upload", { timeout: 10000 }, () => {
+  it("should send the Blob in sequential chunks with Content-Range headers", async () => {
+    const { fetchFn, received, maxInFlight } = server();
+
+    const data = await create
+      .put("https://api.example.com/uploads/1")
+      .withBody(new Blob([DATA]))
+      .withChunkedUpload({ chunkSize: 8 })
+      .withFetch(fetchFn)
+      .getJson();
+
+    assert.deepEqual(received, [
+      { range: "bytes 0-7/20", body: "01234567" },
+      { range: "bytes 8-15/20", body: "89abcdef" },
+      { range: "bytes 16-19/20", body: "ghij" },
+    ]);
+    assert.equal(maxInFlight(), 1);
+    assert.deepEqual(data, { stored: 4 });
+  });
+
+  it("should send chunks in parallel up to the concurrency and the last chunk alone", async () => {
+    const { fetchFn, received, maxInFlight } = server();
+
+    await create
+      .post("https://api.example.com/uploads")
+      .withBody(new Blob([DATA]))
+      .withChunkedUpload({ chunkSize: 4, concurrency: 2 })
+      .withFetch(fetchFn)
+      .getResponse();
+
+    assert.equal(maxInFlight(), 2);
+    assert.equal(received.length, 5);
+    assert.equal(received.at(-1)!.range, "bytes 16-19/20");
+    assert.equal(
+      received
+        .map(chunk => chunk.body)
+        .sort()
+        .join(""),
+      DATA
+    );
+  });
+
+  it("should cancel the response bodies of all but the last chunk", async () => {
+    const { fetchFn, cancelled } = server();
+    const read: unknown[] = [];
+
+    const data = await create
+      .put("https://api.example.com/uploads/1")
+      .withBody(new Blob([DATA]))
+      .withChunkedUpload({ chunkSize: 4, concurrency: 2, onChunk: ({ start, response }) => start === 0 && void response.getJson().then(json => read.push(json)) })
+      .withFetch(fetchFn)
+      .getJson();
+
+    assert.deepEqual(data, { stored: 4 });
+    // The body onChunk reads is left alone
+    assert.deepEqual(read, [{ stored: 4 }]);
+    assert.equal(cancelled(), 3);
+  });
+
+  it("should retry a failed chunk on its own", async () => {
+    const { fetchFn, received } = server([200, 503, 200]);
+    const chunks: UploadChunk[] = [];
+
+    await create
+      .put("https://api.example.com/uploads/1")
+      .withBody(new Blob([DATA]))
+      .withRetries({ attempts: 1, delay: 1 })
+      .withChunkedUpload({ chunkSize: 10, onChunk: chunk => chunks.push(chunk) })
+      .withFetch(fetchFn)
+      .getResponse();
+
+    assert.deepEqual(
+      received.map(chunk => chunk.range),
+      ["bytes 0-9/20", "bytes 10-19/20"]
+    );
+    assert.deepEqual(
+      chunks.map(({ start, end, total, response }) => [start, end, total, response.status]),
+      [
+        [0, 9, 20, 200],
+        [10, 19, 20, 200],
+      ]
+    );
+  });
+
+  it("should fail with the chunk's error when retries are exhausted", async () => {
+    const { fetchFn, received } = server([200, 500]);
+
+    await assert.rejects(
+      create
+        .put("https://api.example.com/uploads/1")
+        .withBody(new Blob([DATA]))
+        .withChunkedUpload({ chunkSize: 8 })
+        .withFetch(fetchFn)
+        .getResponse(),
+      (error: RequestError) => error.status === 500
+    );
+    assert.equal(received.length, 1);
+  });
+
+  it("should resume from a server-reported offset", async () => {
+    const { fetchFn, received } = server();
+
+    await create
+      .put("https://api.example.com/uploads/1")
+      .withBody(new Blob([DATA]))
+      .withChunkedUpload({ chunkSize: 8, offset: () => Promise.resolve(12) })
+      .withFetch(fetchFn)
+      .getResponse();
+
+    assert.deepEqual(received, [{ range: "bytes 12-19/20", body: "cdefghij" }]);
+  });
+
+  it("should send a single empty request when nothing is left to upload", async () => {
+    const { fetchFn, received } = server();
+
+    await create
+      .put("https://api.example.com/uploads/1")
+      .withBody(new Blob([DATA]))
+      .withChunkedUpload({ offset: 20 })
+      .withFetch(fetchFn)
+      .getResponse();
+
+    assert.deepEqual(received, [{ range: "bytes */20", body: "" }]);
+  });
+
+  it("should report progress for the whole upload", async () => {
+    const { fetchFn } = server();
+    const progress: TransferProgress[] = [];
+
+    await create
+      .put("https://api.example.com/uploads/1")
+      .withBody(new Blob([DATA]))
+      .withChunkedUpload({ chunkSize: 8, offset: 4 })
+      .withUploadProgress(event => progress.push(event))
+      .withFetch(fetchFn)
+      .getResponse();
+
+    assert.deepEqual(progress, [
+      { loaded: 12, total: 20, percent: 60 },
+      { loaded: 20, total: 20, percent: 100 },
+    ]);
+  });
+
+  it("should reject bad options and bodies that are not a Blob", async () => {
+    const request = () => create.put("https://api.example.com/uploads/1");
+
+    assert.throws(
+      () => request().withChunkedUpload({ chunkSize: 0 }),
+      (error: RequestError) => error.message === "Bad chunkSize: 0"
+    );
+    assert.throws(
+      () => request().withChunkedUpload({ concurrency: 1.5 }),
+      (error: RequestError) => error.message === "Bad concurrency: 1.5"
+    );
+    assert.throws(
+      () => request().withChunkedUpload({ offset: -1 }),
+      (error: RequestError) => error.message === "Bad offset: -1"
+    );
+    await assert.rejects(
+      request()
+        .withBody(new Blob([DATA]))
+        .withChunkedUpload({ offset: () => 21 })
+        .getResponse(),
+      (error: RequestError) => error.message === "Bad offset: 21"
+    );
+    await assert.rejects(request().withBody({ a: 1 }).withChunkedUpload().getResponse(), (error: RequestError) => error.message === "Chunked upload needs a Blob body");
+  });
+});
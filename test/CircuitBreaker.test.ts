@@ -0,0 +1,151 @@
+import assert from "node:assert/strict";
+import { describe, it, beforeEach, afterEach } from "node:test";
+import create, { type RequestError, type CircuitState } from "../src/index.js";
+import { FetchMock, wait } from "./utils/fetchMock.js";
+
+describe("Circuit Breaker", { timeout: 10000 }, () => {
+  beforeEach(() => {
+    FetchMock.install();
+    FetchMock.reset();
+  });
+
+  afterEach(() => {
+    FetchMock.restore();
+  });
+
+  const failTimes = (count: number) => {
+    for (let i = 0; i < count; i++) FetchMock.mockResponseOnce({ status: 503, body: {} });
+  };
+
+  it("should open after consecutive failures and fail fast without sending", async () => {
+    failTimes(2);
+    const changes: Array<{ origin: string; from: CircuitState; to: CircuitState }> = [];
+    const api = create
+      .api()
+      .withBaseURL("https://api.example.com")
+      .withCircuitBreaker({ failureThreshold: 2, onStateChange: change => changes.push(change) });
+
+    await assert.rejects(api.get("/a").getJson(), (error: RequestError) => error.status === 503);
+    await assert.rejects(api.get("/a").getJson(), (error: RequestError) => error.status === 503);
+    await assert.rejects(api.get("/a").getJson(), (error: RequestError) => error.isCircuitOpen && error.message === "Circuit open");
+
+    assert.equal(FetchMock.mock.calls.length, 2);
+    assert.deepEqual(changes, [{ origin: "https://api.example.com", from: "closed", to: "open" }]);
+  });
+
+  it("should count network errors and timeouts as failures", async () => {
+    FetchMock.mockErrorOnce(new Error("Network failure"));
+    FetchMock.mockDelayedResponseOnce(100, { body: {} });
+    const api = create.api().withBaseURL("https://api.example.com").withCircuitBreaker({ failureThreshold: 2 });
+
+    await assert.rejects(api.get("/a").getJson());
+    await assert.rejects(api.get("/a").withTimeout(10).getJson(), (error: RequestError) => error.isTimeout);
+    await assert.rejects(api.get("/a").getJson(), (error: RequestError) => error.isCircuitOpen);
+  });
+
+  it("should reset the failure count on success and ignore client errors", async () => {
+    failTimes(1);
+    FetchMock.mockResponseOnce({ body: {} });
+    failTimes(1);
+    FetchMock.mockResponseOnce({ status: 404, body: {} });
+    FetchMock.mockResponseOnce({ body: { ok: true } });
+    const api = create.api().withBaseURL("https://api.example.com").withCircuitBreaker({ failureThreshold: 2 });
+
+    await assert.rejects(api.get("/a").getJson());
+    await api.get("/a").getJson();
+    await assert.rejects(api.get("/a").getJson());
+    await assert.rejects(api.get("/a").getJson(), (error: RequestError) => error.status === 404);
+
+    assert.deepEqual(await api.get("/a").getJson(), { ok: true });
+  });
+
+  it("should not count aborted requests", async () => {
+    FetchMock.mockDelayedResponseOnce(50, { body: {} });
+    FetchMock.mockResponseOnce({ body: { ok: true } });
+    const api = create.api().withBaseURL("https://api.example.com").withCircuitBreaker({ failureThreshold: 1 });
+    const controller = new AbortController();
+
+    const aborted = api.get("/a").withAbortController(controller).getJson();
+    controller.abort();
+    await assert.rejects(aborted, (error: RequestError) => error.isAborted);
+
+    assert.deepEqual(await api.get("/a").getJson(), { ok: true });
+  });
+
+  describe("half-open", () => {
+    it("should close after a successful trial request", async () => {
+      failTimes(1);
+      FetchMock.mockResponseOnce({ body: { ok: true } });
+      const states: CircuitState[] = [];
+      const api = create
+        .api()
+        .withBaseURL("https://api.example.com")
+        .withCircuitBreaker({ failureThreshold: 1, resetTimeout: 20, onStateChange: ({ to }) => states.push(to) });
+
+      await assert.rejects(api.get("/a").getJson());
+      await wait(30);
+
+      assert.deepEqual(await api.get("/a").getJson(), { ok: true });
+      assert.deepEqual(states, ["open", "half-open", "closed"]);
+    });
+
+    it("should open again after a failed trial request", async () => {
+      failTimes(2);
+      const states: CircuitState[] = [];
+      const api = create
+        .api()
+        .withBaseURL("https://api.example.com")
+        .withCircuitBreaker({ failureThreshold: 1, resetTimeout: 20, onStateChange: ({ to }) => states.push(to) });
+
+      await assert.rejects(api.get("/a").getJson());
+      await wait(30);
+      await assert.rejects(api.get("/a").getJson(), (error: RequestError) => error.status === 503);
+      await assert.rejects(api.get("/a").getJson(), (error: RequestError) => error.isCircuitOpen);
+
+      assert.deepEqual(states, ["open", "half-open", "open"]);
+    });
+
+    it("should limit concurrent trial requests to halfOpenMax", async () => {
+      failTimes(1);
+      FetchMock.mockDelayedResponseOnce(20, { body: {} });
+      FetchMock.mockDelayedResponseOnce(20, { body: {} });
+      const api = create.api().withBaseURL("https://api.example.com").withCircuitBreaker({ failureThreshold: 1, resetTimeout: 10, halfOpenMax: 2 });
+
+      await assert.rejects(api.get("/a").getJson());
+      await wait(20);
+      const results = await Promise.allSettled([api.get("/a").getJson(), api.get("/a").getJson(), api.get("/a").getJson()]);
+
+      assert.deepEqual(
+        results.map(result => result.status),
+        ["fulfilled", "fulfilled", "rejected"]
+      );
+      assert.equal(FetchMock.mock.calls.length, 3);
+    });
+  });
+
+  it("should track circuits per origin", async () => {
+    failTimes(1);
+    FetchMock.mockResponseOnce({ body: { ok: true } });
+    const api = create.api().withCircuitBreaker({ failureThreshold: 1 });
+
+    await assert.rejects(api.get("https://down.example.com/a").getJson());
+    await assert.rejects(api.get("https://down.example.com/b").getJson(), (error: RequestError) => error.isCircuitOpen);
+
+    assert.deepEqual(await api.get("https://up.example.com/a").getJson(), { ok: true });
+  });
+
+  it("should stop retrying once the circuit opens", async () => {
+    failTimes(2);
+    const api = create.api().withBaseURL("https://api.example.com").withRetries(5).withCircuitBreaker({ failureThreshold: 2 });
+
+    await assert.rejects(api.get("/a").getJson(), (error: RequestError) => error.isCircuitOpen);
+
+    assert.equal(FetchMock.mock.calls.length, 2);
+  });
+
+  it("should throw for invalid options", () => {
+    assert.throws(() => create.api().withCircuitBreaker({ failureThreshold: 0 }), /Bad circuit breaker/);
+    assert.throws(() => create.api().withCircuitBreaker({ halfOpenMax: 1.5 }), /Bad circuit breaker/);
+    assert.throws(() => create.api().withCircuitBreaker({ resetTimeout: -1 }), /Bad circuit breaker/);
+  });
+});
@@ -0,0 +1,150 @@
+import assert from "node:assert/strict";
+import { describe, it, beforeEach, afterEach } from "node:test";
+import create, { type RequestError } from "../src/index.js";
+import { FetchMock, wait } from "./utils/fetchMock.js";
+
+describe("Concurrency Limit", { timeout: 10000 }, () => {
+  const sentUrls = () => FetchMock.mock.calls.map(call => String(call[0]));
+
+  beforeEach(() => {
+    FetchMock.install();
+    FetchMock.reset();
+  });
+
+  afterEach(() => {
+    FetchMock.restore();
+  });
+
+  it("should cap the number of requests in flight", async () => {
+    for (let i = 0; i < 4; i++) FetchMock.mockDelayedResponseOnce(30, { body: { i } });
+    const api = create.api().withBaseURL("https://api.example.com").withConcurrency(2);
+
+    const requests = [1, 2, 3, 4].map(id => api.get(`/items/${id}`).getJson());
+    await wait(10);
+    assert.equal(FetchMock.mock.calls.length, 2);
+
+    const results = await Promise.all(requests);
+    assert.equal(results.length, 4);
+    assert.equal(FetchMock.mock.calls.length, 4);
+  });
+
+  it("should dispatch queued requests by priority, then in order", async () => {
+    for (let i = 0; i < 5; i++) FetchMock.mockDelayedResponseOnce(10, { body: {} });
+    const api = create.api().withBaseURL("https://api.example.com").withConcurrency(1);
+
+    await Promise.all([
+      api.get("/first").getJson(),
+      api.get("/low").withPriority("low").getJson(),
+      api.get("/auto-1").getJson(),
+      api.get("/high").withPriority.HIGH().getJson(),
+      api.get("/auto-2").withPriority("auto").getJson(),
+    ]);
+
+    assert.deepEqual(
+      sentUrls().map(url => url.replace("https://api.example.com", "")),
+      ["/first", "/high", "/auto-1", "/auto-2", "/low"]
+    );
+  });
+
+  it("should remove aborted requests from the queue without sending them", async () => {
+    FetchMock.mockDelayedResponseOnce(30, { body: {} });
+    FetchMock.mockResponseOnce({ body: { last: true } });
+    const api = create.api().withBaseURL("https://api.example.com").withConcurrency(1);
+    const controller = new AbortController();
+
+    const first = api.get("/first").getJson();
+    const queued = api.get("/queued").withAbortController(controller).getJson();
+    const last = api.get("/last").getJson();
+    controller.abort();
+
+    await assert.rejects(queued, (error: RequestError) => error.isAborted);
+    await first;
+    assert.deepEqual(await last, { last: true });
+    assert.deepEqual(sentUrls(), ["https://api.example.com/first", "https://api.example.com/last"]);
+  });
+
+  it("should count queued time towards the timeout", async () => {
+    FetchMock.mockDelayedResponseOnce(50, { body: {} });
+    const api = create.api().withBaseURL("https://api.example.com").withConcurrency(1);
+
+    const first = api.get("/first").getJson();
+    await assert.rejects(api.get("/queued").withTimeout(10).getJson(), (error: RequestError) => error.isTimeout);
+    await first;
+
+    assert.equal(FetchMock.mock.calls.length, 1);
+  });
+
+  it("should hold the slot until the response body is read or cancelled", async () => {
+    const bodies: Array<ReadableStreamDefaultController<Uint8Array>> = [];
+    const urls: string[] = [];
+    const fetchFn = (url: RequestInfo | URL) => {
+      urls.push(url as string);
+      return Promise.resolve(new Response(new ReadableStream<Uint8Array>({ start: controller => void bodies.push(controller) })));
+    };
+    const api = create.api().withBaseURL("https://api.example.com").withFetch(fetchFn).withConcurrency(1);
+
+    const first = await api.get("/first").getResponse();
+    const second = api.get("/second").getResponse();
+    await wait(10);
+    // The headers arrived, but the body is still streaming
+    assert.equal(urls.length, 1);
+
+    const text = first.getText();
+    bodies[0].enqueue(new TextEncoder().encode("done"));
+    bodies[0].close();
+    assert.equal(await text, "done");
+    const unread = await second;
+    assert.equal(urls.length, 2);
+
+    const third = api.get("/third").getResponse();
+    await wait(10);
+    assert.equal(urls.length, 2);
+    await unread.raw.body?.cancel();
+    await third;
+    assert.equal(urls.length, 3);
+  });
+
+  it("should release the slot when a request fails", async () => {
+    FetchMock.mockErrorOnce(new Error("Network failure"));
+    FetchMock.mockResponseOnce({ body: { ok: true } });
+    const api = create.api().withBaseURL("https://api.example.com").withConcurrency(1);
+
+    const results = await Promise.allSettled([api.get("/fails").getJson(), api.get("/works").getJson()]);
+
+    assert.equal(results[0].status, "rejected");
+    assert.deepEqual(results[1], { status: "fulfilled", value: { ok: true } });
+  });
+
+  it("should apply the limit per origin when requested", async () => {
+    FetchMock.mockDelayedResponseOnce(30, { body: {} });
+    FetchMock.mockDelayedResponseOnce(30, { body: {} });
+    FetchMock.mockDelayedResponseOnce(30, { body: {} });
+    const api = create.api().withConcurrency(1, { perOrigin: true });
+
+    const requests = [api.get("https://a.example.com/1").getJson(), api.get("https://b.example.com/1").getJson(), api.get("https://a.example.com/2").getJson()];
+    await wait(10);
+    assert.deepEqual(sentUrls(), ["https://a.example.com/1", "https://b.example.com/1"]);
+
+    await Promise.all(requests);
+    assert.equal(FetchMock.mock.calls.length, 3);
+  });
+
+  it("should not hold a slot while waiting between retries", async () => {
+    FetchMock.mockResponseOnce({ status: 503, body: {} });
+    FetchMock.mockResponseOnce({ body: { other: true } });
+    FetchMock.mockResponseOnce({ body: { retried: true } });
+    const api = create.api().withBaseURL("https://api.example.com").withConcurrency(1);
+
+    const retried = api.get("/flaky").withRetries({ attempts: 1, delay: 20 }).getJson();
+    await wait(5);
+    const other = await api.get("/other").getJson();
+
+    assert.deepEqual(other, { other: true });
+    assert.deepEqual(await retried, { retried: true });
+  });
+
+  it("should throw for an invalid limit", () => {
+    assert.throws(() => create.api().withConcurrency(0), /Bad concurrency/);
+    assert.throws(() => create.api().withConcurrency(1.5), /Bad concurrency/);
+  });
+});
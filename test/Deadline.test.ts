@@ -0,0 +1,135 @@
+import assert from "node:assert/strict";
+import { describe, it, beforeEach, afterEach } from "node:test";
+import create, { type RequestError } from "../src/index.js";
+import { FetchMock } from "./utils/fetchMock.js";
+import { GetRequest } from "../src/requestMethods.js";
+
+describe("Deadline and Abortable Retry Delays", { timeout: 10000 }, () => {
+  beforeEach(() => {
+    FetchMock.install();
+    FetchMock.reset();
+  });
+
+  afterEach(() => {
+    FetchMock.restore();
+  });
+
+  describe("abortable retry delays", () => {
+    it("should reject promptly when aborted during the retry delay", async () => {
+      FetchMock.mockErrorOnce(new Error("Network failure"));
+      FetchMock.mockResponseOnce({ body: { success: true } });
+
+      const controller = new AbortController();
+      const startTime = Date.now();
+      const promise = create.get("https://api.example.com/data").withAbortController(controller).withRetries({ attempts: 1, delay: 5000 }).getJson();
+      setTimeout(() => controller.abort(), 20);
+
+      await assert.rejects(promise, (error: RequestError) => error.isAborted);
+      assert(Date.now() - startTime < 1000, "Should not wait for the full delay");
+      assert.equal(FetchMock.mock.calls.length, 1);
+    });
+
+    it("should reject without waiting when aborted in onRetry", async () => {
+      FetchMock.mockErrorOnce(new Error("Network failure"));
+
+      const controller = new AbortController();
+      const startTime = Date.now();
+
+      await assert.rejects(
+        create
+          .get("https://api.example.com/data")
+          .withAbortController(controller)
+          .withRetries({ attempts: 1, delay: 5000 })
+          .onRetry(() => controller.abort())
+          .getJson(),
+        (error: RequestError) => error.isAborted
+      );
+      assert(Date.now() - startTime < 1000, "Should not wait for the delay");
+    });
+  });
+
+  describe("withDeadline()", () => {
+    it("should bound a single attempt", async () => {
+      FetchMock.mockDelayedResponseOnce(500, { body: { slow: true } });
+
+      await assert.rejects(create.get("https://api.example.com/data").withDeadline(30).getJson(), (error: RequestError) => {
+        assert.equal(error.isDeadline, true);
+        assert.equal(error.isTimeout, true);
+        assert.match(error.message, /Deadline:30/);
+        return true;
+      });
+    });
+
+    it("should bound the total time across retries", async () => {
+      for (let i = 0; i < 5; i++) FetchMock.mockDelayedResponseOnce(500, { body: { slow: true } });
+
+      const startTime = Date.now();
+      await assert.rejects(create.get("https://api.example.com/data").withTimeout(40).withRetries(5).withDeadline(100).getJson(), (error: RequestError) => error.isDeadline);
+      const duration = Date.now() - startTime;
+
+      assert(duration < 400, `Expected to give up near the deadline, took ${duration}ms`);
+      assert(FetchMock.mock.calls.length >= 2 && FetchMock.mock.calls.length <= 3, `Unexpected attempts: ${FetchMock.mock.calls.length}`);
+    });
+
+    it("should report per-attempt timeouts as regular timeouts", async () => {
+      FetchMock.mockDelayedResponseOnce(500, { body: { slow: true } });
+
+      await assert.rejects(create.get("https://api.example.com/data").withTimeout(20).withDeadline(5000).getJson(), (error: RequestError) => {
+        assert.equal(error.isTimeout, true);
+        assert.equal(error.isDeadline, false);
+        return true;
+      });
+    });
+
+    it("should fail fast when the retry delay would exceed the deadline", async () => {
+      FetchMock.mockErrorOnce(new Error("Network failure"));
+      FetchMock.mockResponseOnce({ body: { success: true } });
+
+      const startTime = Date.now();
+      await assert.rejects(
+        create.get("https://api.example.com/data").withRetries({ attempts: 1, delay: 2000 }).withDeadline(500).getJson(),
+        (error: RequestError) => error.isDeadline
+      );
+      assert(Date.now() - startTime < 400, "Should not wait for a delay past the deadline");
+      assert.equal(FetchMock.mock.calls.length, 1);
+    });
+
+    it("should not retry deadline errors even with shouldRetry", async () => {
+      FetchMock.mockDelayedResponseOnce(500, { body: { slow: true } });
+
+      await assert.rejects(
+        create
+          .get("https://api.example.com/data")
+          .withRetries({ attempts: 3, shouldRetry: () => true })
+          .withDeadline(30)
+          .getJson(),
+        (error: RequestError) => error.isDeadline
+      );
+      assert.equal(FetchMock.mock.calls.length, 1);
+    });
+
+    it("should succeed when attempts complete within the deadline", async () => {
+      FetchMock.mockErrorOnce(new Error("Network failure"));
+      FetchMock.mockResponseOnce({ body: { success: true } });
+
+      const result = await create.get("https://api.example.com/data").withRetries({ attempts: 1, delay: 10 }).withDeadline(1000).getJson();
+
+      assert.deepEqual(result, { success: true });
+    });
+
+    it("should apply as an API builder default", async () => {
+      FetchMock.mockDelayedResponseOnce(500, { body: { slow: true } });
+
+      const api = create.api().withBaseURL("https://api.example.com").withDeadline(30);
+
+      await assert.rejects(api.get("/data").getJson(), (error: RequestError) => error.isDeadline);
+    });
+
+    it("should throw for invalid deadlines", () => {
+      const request = new GetRequest("https://api.example.com/test");
+      assert.throws(() => request.withDeadline(0), /Bad deadline/);
+      assert.throws(() => request.withDeadline(-1), /Bad deadline/);
+      assert.throws(() => request.withDeadline(Infinity), /Bad deadline/);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import assert from "node:assert/strict";
+import { describe, it, beforeEach, afterEach } from "node:test";
+import create, { type RequestError } from "../src/index.js";
+import { FetchMock } from "./utils/fetchMock.js";
+import { GetRequest } from "../src/requestMethods.js";
+
+describe("Request Deduplication", { timeout: 10000 }, () => {
+  beforeEach(() => {
+    FetchMock.install();
+    FetchMock.reset();
+  });
+
+  afterEach(() => {
+    FetchMock.restore();
+  });
+
+  it("should share one network call between identical concurrent requests", async () => {
+    FetchMock.mockDelayedResponseOnce(20, { body: { id: 1 } });
+
+    const [a, b, c] = await Promise.all([
+      create.get("https://api.example.com/me").withDedupe().getJson(),
+      create.get("https://api.example.com/me").withDedupe().getJson(),
+      create.get("https://api.example.com/me").withDedupe().getJson(),
+    ]);
+
+    assert.deepEqual(a, { id: 1 });
+    assert.deepEqual(b, { id: 1 });
+    assert.deepEqual(c, { id: 1 });
+    assert.equal(FetchMock.mock.calls.length, 1);
+  });
+
+  it("should give every caller an independently readable response", async () => {
+    FetchMock.mockDelayedResponseOnce(20, { body: "hello", headers: { "content-type": "text/plain" } });
+
+    const [a, b] = await Promise.all([
+      create.get("https://api.example.com/text").withDedupe().getResponse(),
+      create.get("https://api.example.com/text").withDedupe().getResponse(),
+    ]);
+
+    assert.notEqual(a.raw, b.raw);
+    assert.equal(await a.getText(), "hello");
+    assert.equal(await b.getText(), "hello");
+  });
+
+  it("should not share calls once the first request settled", async () => {
+    FetchMock.mockResponseOnce({ body: { v: 1 } });
+    FetchMock.mockResponseOnce({ body: { v: 2 } });
+
+    await create.get("https://api.example.com/me").withDedupe().getJson();
+    const second = await create.get("https://api.example.com/me").withDedupe().getJson();
+
+    assert.deepEqual(second, { v: 2 });
+    assert.equal(FetchMock.mock.calls.length, 2);
+  });
+
+  it("should only dedupe requests that opted in", async () => {
+    FetchMock.mockDelayedResponseOnce(20, { body: {} });
+    FetchMock.mockDelayedResponseOnce(20, { body: {} });
+
+    await Promise.all([create.get("https://api.example.com/me").withDedupe().getJson(), create.get("https://api.example.com/me").getJson()]);
+
+    assert.equal(FetchMock.mock.calls.length, 2);
+  });
+
+  it("should distinguish query parameters", async () => {
+    FetchMock.mockDelayedResponseOnce(20, { body: { page: 1 } });
+    FetchMock.mockDelayedResponseOnce(20, { body: { page: 2 } });
+
+    const [a, b] = await Promise.all([
+      create.get("https://api.example.com/items").withQueryParams({ page: 1 }).withDedupe().getJson(),
+      create.get("https://api.example.com/items").withQueryParams({ page: 2 }).withDedupe().getJson(),
+    ]);
+
+    assert.deepEqual([a, b], [{ page: 1 }, { page: 2 }]);
+  });
+
+  it("should distinguish headers, or only the selected ones", async () => {
+    FetchMock.mockDelayedResponseOnce(20, { body: {} });
+    FetchMock.mockDelayedResponseOnce(20, { body: {} });
+
+    const request = (trace: string, headers?: string[]) =>
+      create.get("https://api.example.com/me").withHeaders({ Authorization: "Bearer a", "X-Trace": trace }).withDedupe({ headers }).getJson();
+
+    await Promise.all([request("1"), request("2")]);
+    assert.equal(FetchMock.mock.calls.length, 2);
+
+    FetchMock.reset();
+    FetchMock.mockDelayedResponseOnce(20, { body: {} });
+    await Promise.all([request("1", ["authorization"]), request("2", ["authorization"])]);
+    assert.equal(FetchMock.mock.calls.length, 1);
+  });
+
+  it("should not dedupe non-idempotent methods", async () => {
+    FetchMock.mockDelayedResponseOnce(20, { body: {} });
+    FetchMock.mockDelayedResponseOnce(20, { body: {} });
+
+    await Promise.all([
+      create.post("https://api.example.com/items").withBody({}).withDedupe().getJson(),
+      create.post("https://api.example.com/items").withBody({}).withDedupe().getJson(),
+    ]);
+
+    assert.equal(FetchMock.mock.calls.length, 2);
+  });
+
+  it("should share errors with every caller", async () => {
+    FetchMock.mockDelayedResponseOnce(20, { status: 500, body: { error: "down" } });
+
+    const results = await Promise.allSettled([create.get("https://api.example.com/me").withDedupe().getJson(), create.get("https://api.example.com/me").withDedupe().getJson()]);
+
+    for (const result of results) {
+      assert.equal(result.status, "rejected");
+      assert.equal((result.reason as RequestError).status, 500);
+      assert.equal((result.reason as RequestError).body, JSON.stringify({ error: "down" }));
+    }
+    assert.equal(FetchMock.mock.calls.length, 1);
+  });
+
+  describe("abort handling", () => {
+    it("should only detach the aborted caller", async () => {
+      FetchMock.mockDelayedResponseOnce(30, { body: { id: 1 } });
+      const controller = new AbortController();
+
+      const aborted = create.get("https://api.example.com/me").withAbortController(controller).withDedupe().getJson();
+      const other = create.get("https://api.example.com/me").withDedupe().getJson();
+      setTimeout(() => controller.abort(), 5);
+
+      await assert.rejects(aborted, (error: RequestError) => error.isAborted);
+      assert.deepEqual(await other, { id: 1 });
+      assert.equal(FetchMock.mock.calls.length, 1);
+    });
+
+    it("should abort the shared call once every caller aborted", async () => {
+      FetchMock.mockDelayedResponseOnce(30, { body: { id: 1 } });
+      const controller = new AbortController();
+
+      const requests = [1, 2].map(() => create.get("https://api.example.com/me").withAbortController(controller).withDedupe().getJson());
+      setTimeout(() => controller.abort(), 5);
+
+      for (const request of requests) await assert.rejects(request, (error: RequestError) => error.isAborted);
+      const sharedSignal = (FetchMock.mock.calls[0][1] as RequestInit).signal!;
+      assert.equal(sharedSignal.aborted, true);
+    });
+
+    it("should apply each caller's own timeout", async () => {
+      FetchMock.mockDelayedResponseOnce(40, { body: { id: 1 } });
+
+      const [short, long] = await Promise.allSettled([
+        create.get("https://api.example.com/me").withTimeout(10).withDedupe().getJson(),
+        create.get("https://api.example.com/me").withTimeout(1000).withDedupe().getJson(),
+      ]);
+
+      assert.equal(short.status, "rejected");
+      assert.equal((short.reason as RequestError).isTimeout, true);
+      assert.deepEqual((long as PromiseFulfilledResult<unknown>).value, { id: 1 });
+    });
+  });
+
+  it("should throw for invalid header names", () => {
+    const request = new GetRequest("https://api.example.com/test");
+    assert.throws(() => request.withDedupe({ headers: "Authorization" as any }), /Bad dedupe headers/);
+  });
+
+  describe("with createApi()", () => {
+    it("should dedupe requests of the instance", async () => {
+      FetchMock.mockDelayedResponseOnce(20, { body: { id: 1 } });
+
+      const api = create.api().withBaseURL("https://api.example.com").withDedupe();
+      const [a, b] = await Promise.all([api.get("/me").getJson(), api.get("/me").getJson()]);
+
+      assert.deepEqual(a, b);
+      assert.equal(FetchMock.mock.calls.length, 1);
+    });
+  });
+});
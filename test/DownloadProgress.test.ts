@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import create, { type RequestError, type TransferProgress } from "../src/index.js";
+
+/**
+ * Response whose body arrives in the given chunks
+ */
+const chunked = (chunks: string[], headers: Record<string, string> = {}) => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+  return () => Promise.resolve(new Response(body, { headers }));
+};
+
+describe("Download Progress", { timeout: 10000 }, () => {
+  it("should report progress against Content-Length", async () => {
+    const progress: TransferProgress[] = [];
+
+    const text = await create
+      .get("https://api.example.com/file")
+      .withFetch(chunked(["abcd", "efgh"], { "content-length": "8" }))
+      .withDownloadProgress(event => progress.push(event))
+      .getText();
+
+    assert.equal(text, "abcdefgh");
+    assert.deepEqual(progress, [
+      { loaded: 4, total: 8, percent: 50 },
+      { loaded: 8, total: 8, percent: 100 },
+    ]);
+  });
+
+  it("should report the total at the end when the length is unknown", async () => {
+    const progress: TransferProgress[] = [];
+
+    await create
+      .get("https://api.example.com/file")
+      .withFetch(chunked(["abc", "de"]))
+      .withDownloadProgress(event => progress.push(event))
+      .getArrayBuffer();
+
+    assert.deepEqual(progress, [
+      { loaded: 3, total: undefined, percent: undefined },
+      { loaded: 5, total: undefined, percent: undefined },
+      { loaded: 5, total: 5, percent: 100 },
+    ]);
+  });
+
+  it("should ignore Content-Length of content-encoded responses", async () => {
+    const progress: TransferProgress[] = [];
+
+    await create
+      .get("https://api.example.com/file")
+      .withFetch(chunked(["0123456789"], { "content-length": "4", "content-encoding": "gzip" }))
+      .withDownloadProgress(event => progress.push(event))
+      .getText();
+
+    assert.equal(progress[0].total, undefined);
+    assert.deepEqual(progress.at(-1), { loaded: 10, total: 10, percent: 100 });
+  });
+
+  it("should throttle reports but always make the final one", async () => {
+    const progress: TransferProgress[] = [];
+
+    await create
+      .get("https://api.example.com/file")
+      .withFetch(chunked(["a", "b", "c", "d"], { "content-length": "4" }))
+      .withDownloadProgress(event => progress.push(event), { throttleMs: 10000 })
+      .getText();
+
+    assert.deepEqual(
+      progress.map(event => event.loaded),
+      [1, 4]
+    );
+    assert.equal(progress[1].percent, 100);
+  });
+
+  it("should keep the response properties of the counted response", async () => {
+    const response = await create
+      .get("https://api.example.com/file")
+      .withFetch(chunked(["{}"], { "content-type": "application/json", "x-id": "7" }))
+      .withDownloadProgress(() => {})
+      .getResponse();
+
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("x-id"), "7");
+    assert.deepEqual(await response.getJson(), {});
+  });
+
+  it("should reject a negative throttle", () => {
+    assert.throws(
+      () => create.get("https://api.example.com/file").withDownloadProgress(() => {}, { throttleMs: -1 }),
+      (error: RequestError) => error.message === "Bad throttle: -1"
+    );
+    assert.throws(() => create.post("https://api.example.com/file").withUploadProgress(() => {}, { throttleMs: NaN }));
+  });
+});
@@ -0,0 +1,193 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import create, { type FetchFunction, type RequestError, type ServerSentEvent } from "../src/index.js";
+
+const SSE = { "content-type": "text/event-stream; charset=utf-8" };
+
+/**
+ * Body delivering the given chunks, then ending (or failing, like a dropped connection)
+ */
+const stream = (chunks: string[], fail = false) => {
+  const encoder = new TextEncoder();
+  let index = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (index < chunks.length) return controller.enqueue(encoder.encode(chunks[index++]));
+      if (fail) controller.error(new TypeError("terminated"));
+      else controller.close();
+    },
+  });
+};
+
+/**
+ * Fetch stub serving the given responses in order and recording the requests
+ */
+const serve = (...responses: Array<() => Response>) => {
+  const requests: RequestInit[] = [];
+  const fetchFn: FetchFunction = (_url, init) => {
+    requests.push({ ...init, headers: { ...(init?.headers as Record<string, string>) } });
+    return Promise.resolve(responses[requests.length - 1]());
+  };
+  return { fetchFn, requests };
+};
+
+const collect = async (events: AsyncIterable<ServerSentEvent>) => {
+  const received: ServerSentEvent[] = [];
+  for await (const event of events) received.push(event);
+  return received;
+};
+
+describe("Server-Sent Events", { timeout: 10000 }, () => {
+  it("should parse events split across chunks", async () => {
+    const { fetchFn, requests } = serve(
+      () =>
+        new Response(
+          stream([": comment\r\nid: 1\r", "\nevent: update\r\ndata: first\r\ndata:  second\r\n\r", "\ndata: plain\n\nretry: 2500\nda", 'ta: {"a":1}\n\ndata: incomplete']),
+          { headers: SSE }
+        )
+    );
+
+    const events = await collect(create.get("https://api.example.com/events").withFetch(fetchFn).getEventStream({ reconnect: false }));
+
+    assert.deepEqual(events, [
+      { id: "1", event: "update", data: "first\n second", retry: undefined },
+      { id: "1", event: "message", data: "plain", retry: undefined },
+      { id: "1", event: "message", data: '{"a":1}', retry: 2500 },
+    ]);
+    assert.equal((requests[0].headers as Record<string, string>).Accept, "text/event-stream");
+  });
+
+  it("should not dispatch events with empty data but keep their ID", async () => {
+    const { fetchFn } = serve(() => new Response(stream(["data:\n\n", "event: ping\nid: 7\n\n", "data\nid: 8\n\n", "data: next\n\n"]), { headers: SSE }));
+
+    const events = await collect(create.get("https://api.example.com/events").withFetch(fetchFn).getEventStream({ reconnect: false }));
+
+    assert.deepEqual(events, [{ id: "8", event: "message", data: "next", retry: undefined }]);
+  });
+
+  it("should reconnect with Last-Event-ID after the stream ends", async () => {
+    const { fetchFn, requests } = serve(
+      () => new Response(stream(["retry: 1\nid: 7\ndata: a\n\n"]), { headers: SSE }),
+      () => new Response(stream(["data: b\n\n"], true), { headers: SSE }),
+      () => new Response(null, { status: 204 })
+    );
+    const seen: string[] = [];
+
+    const events = await collect(
+      create
+        .get("https://api.example.com/events")
+        .withHeader("Authorization", "Bearer token")
+        .withRequestInterceptor(config => {
+          seen.push(config.headers?.["Last-Event-ID"] ?? "");
+          return config;
+        })
+        .withFetch(fetchFn)
+        .getEventStream()
+    );
+
+    assert.deepEqual(
+      events.map(event => event.data),
+      ["a", "b"]
+    );
+    assert.deepEqual(seen, ["", "7", "7"]);
+    assert.ok(requests.every(request => (request.headers as Record<string, string>).Authorization === "Bearer token"));
+  });
+
+  it("should stream POST responses without reconnecting", async () => {
+    const { fetchFn, requests } = serve(() => new Response(stream(['data: {"delta":"Hel"}\n\n', 'data: {"delta":"lo"}\n\n', "data: [DONE]\n\n"]), { headers: SSE }));
+    let output = "";
+
+    for await (const { data } of create.post("https://api.example.com/v1/chat").withBody({ prompt: "Hi", stream: true }).withFetch(fetchFn).getEventStream()) {
+      if (data === "[DONE]") break;
+      output += (JSON.parse(data) as { delta: string }).delta;
+    }
+
+    assert.equal(output, "Hello");
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].body, '{"prompt":"Hi","stream":true}');
+  });
+
+  it("should keep reconnecting through network errors up to maxReconnects", async () => {
+    let calls = 0;
+    const fetchFn: FetchFunction = () => {
+      calls++;
+      if (calls === 1) return Promise.resolve(new Response(stream(["data: a\n\n"], true), { headers: SSE }));
+      return Promise.reject(new TypeError("fetch failed"));
+    };
+
+    const events: string[] = [];
+    await assert.rejects(
+      (async () => {
+        for await (const { data } of create.get("https://api.example.com/events").withFetch(fetchFn).getEventStream({ retryDelay: 1, maxReconnects: 2 })) {
+          events.push(data);
+        }
+      })(),
+      (error: RequestError) => error.message.includes("Net:")
+    );
+    assert.deepEqual(events, ["a"]);
+    assert.equal(calls, 3);
+  });
+
+  it("should stop reconnecting when aborted", async () => {
+    const controller = new AbortController();
+    const { fetchFn, requests } = serve(() => new Response(stream(["data: a\n\n"]), { headers: SSE }));
+
+    const events = create.get("https://api.example.com/events").withAbortController(controller).withFetch(fetchFn).getEventStream({ retryDelay: 5000 });
+    assert.equal((await events.next()).value?.data, "a");
+    setTimeout(() => controller.abort(), 10);
+
+    await assert.rejects(events.next(), (error: RequestError) => error.isAborted);
+    assert.equal(requests.length, 1);
+  });
+
+  it("should cancel the body when the consumer stops early", async () => {
+    let cancelled = false;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(new TextEncoder().encode("data: tick\n\n"));
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+
+    for await (const event of create
+      .get("https://api.example.com/events")
+      .withFetch(() => Promise.resolve(new Response(body, { headers: SSE })))
+      .getEventStream()) {
+      assert.equal(event.data, "tick");
+      break;
+    }
+
+    assert.equal(cancelled, true);
+  });
+
+  it("should reject responses that aren't event streams", async () => {
+    const request = create.get("https://api.example.com/events").withFetch(() => Promise.resolve(new Response("{}", { headers: { "content-type": "application/json" } })));
+
+    await assert.rejects(collect(request.getEventStream()), (error: RequestError) => error.message === "Not an event stream: application/json");
+  });
+
+  it("should read events from a response", async () => {
+    const response = await create
+      .get("https://api.example.com/events")
+      .withFetch(() => Promise.resolve(new Response(stream(["event: ping\ndata: 1\n\n"]), { headers: SSE })))
+      .getResponse();
+
+    assert.deepEqual(await collect(response.getEventStream()), [{ id: undefined, event: "ping", data: "1", retry: undefined }]);
+    await assert.rejects(collect(response.getEventStream()), (error: RequestError) => error.message === "Body used");
+  });
+
+  it("should reject bad options", () => {
+    const request = create.get("https://api.example.com/events");
+
+    assert.throws(
+      () => request.getEventStream({ retryDelay: -1 }),
+      (error: RequestError) => error.message === "Bad retryDelay: -1"
+    );
+    assert.throws(
+      () => request.getEventStream({ maxReconnects: 1.5 }),
+      (error: RequestError) => error.message === "Bad maxReconnects: 1.5"
+    );
+  });
+});
@@ -0,0 +1,159 @@
+import assert from "node:assert/strict";
+import { describe, it, beforeEach, afterEach } from "node:test";
+import create, { type RequestEventMap, type RequestEventName } from "../src/index.js";
+import { FetchMock } from "./utils/fetchMock.js";
+
+describe("Lifecycle Events", { timeout: 10000 }, () => {
+  beforeEach(() => {
+    FetchMock.install();
+    FetchMock.reset();
+    create.config.reset();
+  });
+
+  afterEach(() => {
+    FetchMock.restore();
+    create.config.reset();
+  });
+
+  const record = () => {
+    const events: Array<[RequestEventName, RequestEventMap[RequestEventName]]> = [];
+    const api = create
+      .api()
+      .withBaseURL("https://api.example.com")
+      .on("request:start", event => events.push(["request:start", event]))
+      .on("request:end", event => events.push(["request:end", event]))
+      .on("retry", event => events.push(["retry", event]))
+      .on("error", event => events.push(["error", event]));
+    return { api, events };
+  };
+
+  it("should emit start and end events with status, duration and bytes", async () => {
+    FetchMock.mockResponseOnce({ headers: { "content-type": "application/json", "content-length": "11" }, body: { ok: true } });
+    const { api, events } = record();
+
+    await api.get("/users").getJson();
+
+    assert.deepEqual(
+      events.map(([name]) => name),
+      ["request:start", "request:end"]
+    );
+    assert.deepEqual(events[0][1], { method: "GET", url: "https://api.example.com/users", attempt: 1 });
+    const end = events[1][1] as RequestEventMap["request:end"];
+    assert.equal(end.status, 200);
+    assert.equal(end.bytes, 11);
+    assert.equal(end.attempt, 1);
+    assert.ok(end.duration >= 0);
+  });
+
+  it("should emit a body event with the bytes read once the body is consumed", async () => {
+    FetchMock.mockResponseOnce({ headers: { "content-type": "text/plain" }, body: "hello world" });
+    const bodies: Array<RequestEventMap["request:body"]> = [];
+    const api = create
+      .api()
+      .withBaseURL("https://api.example.com")
+      .on("request:body", event => bodies.push(event));
+
+    const response = await api.get("/text").getResponse();
+    assert.equal(bodies.length, 0);
+    assert.equal(await response.getText(), "hello world");
+
+    assert.equal(bodies.length, 1);
+    assert.equal(bodies[0].status, 200);
+    assert.equal(bodies[0].bytes, 11);
+    assert.equal(bodies[0].attempt, 1);
+    assert.ok(bodies[0].duration >= 0);
+  });
+
+  it("should emit error and retry events with attempt numbers", async () => {
+    FetchMock.mockResponseOnce({ status: 503, body: {} });
+    FetchMock.mockResponseOnce({ body: {} });
+    const { api, events } = record();
+
+    await api.get("/users").withRetries({ attempts: 2, delay: 5 }).getJson();
+
+    assert.deepEqual(
+      events.map(([name, event]) => [name, event.attempt]),
+      [
+        ["request:start", 1],
+        ["error", 1],
+        ["retry", 1],
+        ["request:start", 2],
+        ["request:end", 2],
+      ]
+    );
+    const error = events[1][1] as RequestEventMap["error"];
+    assert.equal(error.status, 503);
+    assert.equal(error.error.status, 503);
+    assert.equal((events[2][1] as RequestEventMap["retry"]).delay, 5);
+    assert.equal((events[4][1] as RequestEventMap["request:end"]).bytes, undefined);
+  });
+
+  it("should report timeouts through the error event", async () => {
+    FetchMock.mockDelayedResponseOnce(200, { body: {} });
+    const { api, events } = record();
+
+    await assert.rejects(api.get("/slow").withTimeout(10).getJson());
+
+    const error = events.find(([name]) => name === "error")![1] as RequestEventMap["error"];
+    assert.ok(error.error.isTimeout);
+    assert.equal(error.status, undefined);
+  });
+
+  it("should call global handlers before API handlers and only for their own API", async () => {
+    FetchMock.mockResponseOnce({ body: {} });
+    FetchMock.mockResponseOnce({ body: {} });
+    const calls: string[] = [];
+    create.config.on("request:end", () => calls.push("global"));
+    const api = create
+      .api()
+      .withBaseURL("https://api.example.com")
+      .on("request:end", () => calls.push("api"));
+
+    await api.get("/a").getJson();
+    await create.get("https://other.example.com/b").getJson();
+
+    assert.deepEqual(calls, ["global", "api", "global"]);
+  });
+
+  it("should report a response rejected by a response interceptor as an error only", async () => {
+    FetchMock.mockResponseOnce({ body: {} });
+    const { api, events } = record();
+
+    const request = api.get("/a").withResponseInterceptor(() => {
+      throw new Error("Rejected");
+    });
+    await assert.rejects(request.getJson());
+
+    assert.deepEqual(
+      events.map(([name]) => name),
+      ["request:start", "error"]
+    );
+  });
+
+  it("should remove handlers with off and ignore handler errors", async () => {
+    FetchMock.mockResponseOnce({ body: { ok: true } });
+    const calls: string[] = [];
+    const handler = () => calls.push("removed");
+    create.config.on("request:start", handler).off("request:start", handler);
+    const api = create
+      .api()
+      .on("request:start", () => {
+        throw new Error("observer failure");
+      })
+      .on("request:end", () => calls.push("end"));
+
+    assert.deepEqual(await api.get("https://api.example.com/a").getJson(), { ok: true });
+    assert.deepEqual(calls, ["end"]);
+  });
+
+  it("should clear global handlers on reset", async () => {
+    FetchMock.mockResponseOnce({ body: {} });
+    const calls: string[] = [];
+    create.config.on("request:start", () => calls.push("start"));
+    create.config.reset();
+
+    await create.get("https://api.example.com/a").getJson();
+
+    assert.deepEqual(calls, []);
+  });
+});
@@ -0,0 +1,237 @@
+import assert from "node:assert/strict";
+import { describe, it, beforeEach, afterEach } from "node:test";
+import create, { type RequestError } from "../src/index.js";
+import { FetchMock, createMockResponse, wait } from "./utils/fetchMock.js";
+import { GetRequest } from "../src/requestMethods.js";
+
+/**
+ * Fetch stub answering each call with the given status after the given delay, recording whose response bodies were cancelled
+ */
+const replicas = (...answers: Array<[delay: number, status: number]>) => {
+  const cancelled: number[] = [];
+  let calls = 0;
+  const fetchFn = (_url: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const call = calls++;
+    const [delay, status] = answers[call];
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        const body = new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode(JSON.stringify({ call })));
+            controller.close();
+          },
+          cancel: () => void cancelled.push(call),
+        });
+        resolve(new Response(body, { status, headers: { "content-type": "application/json" } }));
+      }, delay);
+      init?.signal?.addEventListener("abort", () => {
+        clearTimeout(timer);
+        reject(new DOMException("Aborted", "AbortError"));
+      });
+    });
+  };
+  return { fetchFn, cancelled, calls: () => calls };
+};
+
+describe("Hedged Requests", { timeout: 10000 }, () => {
+  const sentSignal = (call: number) => (FetchMock.mock.calls[call][1] as RequestInit).signal!;
+
+  beforeEach(() => {
+    FetchMock.install();
+    FetchMock.reset();
+  });
+
+  afterEach(() => {
+    FetchMock.restore();
+  });
+
+  it("should not send a copy when the original responds in time", async () => {
+    FetchMock.mockResponseOnce({ body: { id: 1 } });
+
+    const response = await create.get("https://api.example.com/data").withHedging({ delayMs: 50 }).getResponse();
+
+    assert.equal(response.hedgeIndex, 0);
+    assert.deepEqual(await response.getJson(), { id: 1 });
+    await wait(60);
+    assert.equal(FetchMock.mock.calls.length, 1);
+  });
+
+  it("should send a copy after delayMs and abort the slower request", async () => {
+    FetchMock.mockDelayedResponseOnce(200, { body: { from: "original" } });
+    FetchMock.mockResponseOnce({ body: { from: "hedge" } });
+
+    const response = await create.get("https://api.example.com/data").withHedging({ delayMs: 20 }).getResponse();
+
+    assert.equal(response.hedgeIndex, 1);
+    assert.deepEqual(await response.getJson(), { from: "hedge" });
+    assert.equal(sentSignal(0).aborted, true);
+    assert.equal(sentSignal(1).aborted, false);
+  });
+
+  it("should send up to maxHedges copies", async () => {
+    FetchMock.mockDelayedResponseOnce(200, { body: {} });
+    FetchMock.mockDelayedResponseOnce(200, { body: {} });
+    FetchMock.mockResponseOnce({ body: { from: "second hedge" } });
+
+    const response = await create.get("https://api.example.com/data").withHedging({ delayMs: 10, maxHedges: 2 }).getResponse();
+
+    assert.equal(response.hedgeIndex, 2);
+    assert.equal(FetchMock.mock.calls.length, 3);
+  });
+
+  it("should send the next copy right away after a failure", async () => {
+    FetchMock.mockErrorOnce(new Error("Network failure"));
+    FetchMock.mockResponseOnce({ body: { ok: true } });
+    const start = Date.now();
+
+    const response = await create.get("https://api.example.com/data").withHedging({ delayMs: 1000 }).getResponse();
+
+    assert.equal(response.hedgeIndex, 1);
+    assert.ok(Date.now() - start < 500);
+  });
+
+  it("should report the last failure when every request fails", async () => {
+    FetchMock.mockResponseOnce({ status: 503, body: {} });
+    FetchMock.mockResponseOnce({ status: 502, body: {} });
+
+    await assert.rejects(create.get("https://api.example.com/data").withHedging({ delayMs: 10 }).getResponse(), (error: RequestError) => error.status === 502);
+    assert.equal(FetchMock.mock.calls.length, 2);
+  });
+
+  it("should accept client errors as the answer", async () => {
+    FetchMock.mockResponseOnce({ status: 404, body: {} });
+
+    await assert.rejects(create.get("https://api.example.com/data").withHedging({ delayMs: 10 }).getResponse(), (error: RequestError) => error.status === 404);
+    await wait(20);
+    assert.equal(FetchMock.mock.calls.length, 1);
+  });
+
+  it("should prefer a success still in flight over a client error", async () => {
+    const { fetchFn, cancelled } = replicas([60, 404], [80, 200]);
+
+    const response = await create.get("https://api.example.com/data").withFetch(fetchFn).withHedging({ delayMs: 20 }).getResponse();
+
+    assert.equal(response.hedgeIndex, 1);
+    assert.deepEqual(await response.getJson(), { call: 1 });
+    assert.deepEqual(cancelled, [0]);
+  });
+
+  it("should stop sending copies after a client error and throw it when the rest fail", async () => {
+    const { fetchFn, cancelled, calls } = replicas([75, 404], [80, 503]);
+
+    await assert.rejects(
+      create.get("https://api.example.com/data").withFetch(fetchFn).withHedging({ delayMs: 50, maxHedges: 2 }).getResponse(),
+      (error: RequestError) => error.status === 404
+    );
+    assert.equal(calls(), 2);
+    assert.deepEqual(cancelled, [1]);
+  });
+
+  it("should cancel the bodies of failed responses it doesn't return", async () => {
+    const failedThenOk = replicas([0, 503], [0, 200]);
+    const response = await create.get("https://api.example.com/data").withFetch(failedThenOk.fetchFn).withHedging({ delayMs: 1000 }).getResponse();
+    assert.equal(response.hedgeIndex, 1);
+    assert.deepEqual(failedThenOk.cancelled, [0]);
+
+    const allFailed = replicas([0, 503], [0, 502]);
+    await assert.rejects(
+      create.get("https://api.example.com/data").withFetch(allFailed.fetchFn).withHedging({ delayMs: 1000 }).getResponse(),
+      (error: RequestError) => error.status === 502
+    );
+    assert.deepEqual(allFailed.cancelled, [0]);
+  });
+
+  it("should apply the timeout to all requests", async () => {
+    FetchMock.mockDelayedResponseOnce(200, { body: {} });
+    FetchMock.mockDelayedResponseOnce(200, { body: {} });
+
+    await assert.rejects(create.get("https://api.example.com/data").withTimeout(40).withHedging({ delayMs: 10 }).getResponse(), (error: RequestError) => error.isTimeout);
+    assert.equal(sentSignal(0).aborted, true);
+    assert.equal(sentSignal(1).aborted, true);
+  });
+
+  it("should abort all requests when the caller aborts", async () => {
+    FetchMock.mockDelayedResponseOnce(200, { body: {} });
+    FetchMock.mockDelayedResponseOnce(200, { body: {} });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 30);
+
+    await assert.rejects(
+      create.get("https://api.example.com/data").withAbortController(controller).withHedging({ delayMs: 10 }).getResponse(),
+      (error: RequestError) => error.isAborted
+    );
+    assert.equal(FetchMock.mock.calls.length, 2);
+  });
+
+  it("should send copies through the custom fetch and run interceptors once", async () => {
+    let fetches = 0;
+    let requestInterceptors = 0;
+    let responseInterceptors = 0;
+    const customFetch = (_url: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+      const delay = fetches++ === 0 ? 200 : 0;
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => resolve(createMockResponse({ body: { fetch: fetches } })), delay);
+        init?.signal?.addEventListener("abort", () => {
+          clearTimeout(timer);
+          reject(new DOMException("Aborted", "AbortError"));
+        });
+      });
+    };
+
+    const response = await create
+      .get("https://api.example.com/data")
+      .withFetch(customFetch)
+      .withRequestInterceptor(config => {
+        requestInterceptors++;
+        return config;
+      })
+      .withResponseInterceptor(res => {
+        responseInterceptors++;
+        return res;
+      })
+      .withHedging({ delayMs: 10 })
+      .getResponse();
+
+    assert.equal(response.hedgeIndex, 1);
+    assert.equal(fetches, 2);
+    assert.equal(requestInterceptors, 1);
+    assert.equal(responseInterceptors, 1);
+  });
+
+  it("should not hedge non-idempotent requests", async () => {
+    FetchMock.mockDelayedResponseOnce(40, { body: {} });
+
+    const response = await create.post("https://api.example.com/items").withBody({}).withHedging({ delayMs: 5 }).getResponse();
+
+    assert.equal(response.hedgeIndex, undefined);
+    assert.equal(FetchMock.mock.calls.length, 1);
+  });
+
+  it("should throw for invalid options", () => {
+    const request = new GetRequest("https://api.example.com/test");
+    assert.throws(() => request.withHedging({ delayMs: -1 }), /Bad hedging/);
+    assert.throws(() => request.withHedging({ delayMs: 10, maxHedges: 0 }), /Bad hedging/);
+  });
+
+  describe("with createApi()", () => {
+    it("should not count aborted losers as circuit breaker failures", async () => {
+      FetchMock.mockDelayedResponseOnce(200, { body: {} });
+      FetchMock.mockResponseOnce({ body: {} });
+      FetchMock.mockResponseOnce({ body: { ok: true } });
+
+      const api = create.api().withBaseURL("https://api.example.com").withHedging({ delayMs: 10 }).withCircuitBreaker({ failureThreshold: 1 });
+      await api.get("/data").getJson();
+
+      assert.deepEqual(await api.get("/data").getJson(), { ok: true });
+    });
+
+    it("should hedge requests of the instance", async () => {
+      FetchMock.mockDelayedResponseOnce(200, { body: {} });
+      FetchMock.mockResponseOnce({ body: { from: "hedge" } });
+
+      const api = create.api().withBaseURL("https://api.example.com").withHedging({ delayMs: 10 });
+
+      assert.deepEqual(await api.get("/data").getJson(), { from: "hedge" });
+    });
+  });
+});
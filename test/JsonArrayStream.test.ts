@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import create, { type RequestError } from "../src/index.js";
+
+/**
+ * Fetch stub whose response body delivers `text` in chunks of `size` bytes
+ */
+const chunked =
+  (text: string, size = 3, onCancel?: () => void) =>
+  () => {
+    const bytes = new TextEncoder().encode(text);
+    let offset = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (offset >= bytes.length) return controller.close();
+        controller.enqueue(bytes.slice(offset, (offset += size)));
+      },
+      cancel: onCancel,
+    });
+    return Promise.resolve(new Response(body, { headers: { "content-type": "application/json" } }));
+  };
+
+const collect = async <T>(values: AsyncIterable<T>) => {
+  const collected: T[] = [];
+  for await (const value of values) collected.push(value);
+  return collected;
+};
+
+describe("JSON Array Streaming", { timeout: 10000 }, () => {
+  it("should yield the elements of a root array across chunk boundaries", async () => {
+    const elements = [{ id: 1, tags: ["a,b", "]"] }, 'quote " and \\ and [{', 2.5e3, null, true, [], { nested: { deep: [1, { x: "€" }] } }];
+
+    for (const size of [1, 3, 7, 1000]) {
+      const values = await collect(
+        create
+          .get("https://api.example.com/items")
+          .withFetch(chunked(JSON.stringify(elements, null, size === 7 ? 2 : 0), size))
+          .getJsonArrayStream()
+      );
+      assert.deepEqual(values, elements);
+    }
+  });
+
+  it("should select a nested array by path", async () => {
+    const document = {
+      meta: { items: ["wrong"], total: 2 },
+      "data.items": ["wrong"],
+      data: { 'say "hi"': [0], count: [9, 9], items: [{ id: 1 }, { id: 2 }] },
+      pages: [["a"], ["b", "c"]],
+    };
+    const request = (path: string) =>
+      create
+        .get("https://api.example.com/items")
+        .withFetch(chunked(JSON.stringify(document), 5))
+        .getJsonArrayStream(path);
+
+    assert.deepEqual(await collect(request("data.items")), [{ id: 1 }, { id: 2 }]);
+    assert.deepEqual(await collect(request("pages.1")), ["b", "c"]);
+    assert.deepEqual(await collect(request('data.say "hi"')), [0]);
+  });
+
+  it("should stop reading once the array closes or the consumer breaks", async () => {
+    let cancelled = 0;
+    const text = JSON.stringify({ items: [1, 2, 3], rest: "x".repeat(1000) });
+    const request = () => create.get("https://api.example.com/items").withFetch(chunked(text, 8, () => cancelled++));
+
+    assert.deepEqual(await collect(request().getJsonArrayStream("items")), [1, 2, 3]);
+    assert.equal(cancelled, 1);
+
+    for await (const value of request().getJsonArrayStream<number>("items")) {
+      if (value === 1) break;
+    }
+    assert.equal(cancelled, 2);
+  });
+
+  it("should handle empty arrays", async () => {
+    assert.deepEqual(await collect(create.get("https://api.example.com/items").withFetch(chunked(" [ ] ")).getJsonArrayStream()), []);
+  });
+
+  it("should report missing arrays and invalid elements", async () => {
+    const request = (text: string, path?: string) => collect(create.get("https://api.example.com/items").withFetch(chunked(text)).getJsonArrayStream(path));
+
+    await assert.rejects(request('{"data":{}}', "data.items"), (error: RequestError) => error.message === "No array at data.items");
+    await assert.rejects(request('{"data":{"items":{}}}', "data.items"), (error: RequestError) => error.message === "Not an array: data.items");
+    await assert.rejects(request('{"items":[]}'), (error: RequestError) => error.message === "Not an array: root");
+    await assert.rejects(request("[1, {x}]"), (error: RequestError) => error.message.startsWith("Bad JSON in element 1:") && error.body === "{x}");
+    await assert.rejects(request("[1,,2]"), (error: RequestError) => error.message === "Bad JSON in element 1: Unexpected ,");
+    await assert.rejects(request("[1, 2"), (error: RequestError) => error.message === "Bad JSON in element 1: Unexpected end of input");
+  });
+
+  it("should share the body used check with the other readers", async () => {
+    const fetchFn = chunked("[1,2]");
+
+    const streamed = await create.get("https://api.example.com/items").withFetch(fetchFn).getResponse();
+    assert.deepEqual(await collect(streamed.getJsonArrayStream()), [1, 2]);
+    await assert.rejects(streamed.getJson(), (error: RequestError) => error.message === "Body used");
+
+    const read = await create.get("https://api.example.com/items").withFetch(fetchFn).getResponse();
+    assert.equal(await read.getText(), "[1,2]");
+    await assert.rejects(collect(read.getJsonArrayStream()), (error: RequestError) => error.message === "Body used");
+  });
+});
@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import create, { type RequestError } from "../src/index.js";
+
+const NDJSON = { "content-type": "application/x-ndjson" };
+
+/**
+ * Fetch stub whose response body delivers the given byte chunks
+ */
+const chunked = (chunks: Uint8Array[], onCancel?: () => void) => () => {
+  let index = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (index < chunks.length) controller.enqueue(chunks[index++]);
+      else controller.close();
+    },
+    cancel: onCancel,
+  });
+  return Promise.resolve(new Response(body, { headers: NDJSON }));
+};
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+describe("JSON Lines Streaming", { timeout: 10000 }, () => {
+  it("should yield values as lines arrive, across chunk and UTF-8 boundaries", async () => {
+    const euro = bytes('{"price":"€"}\n');
+    const values: unknown[] = [];
+
+    const stream = create
+      .get("https://api.example.com/export")
+      .withFetch(chunked([bytes('{"id":1}\n{"i'), bytes('d":2}\r\n\n'), euro.subarray(0, 11), euro.subarray(11), bytes("[3]")]))
+      .getJsonStream();
+    for await (const value of stream) values.push(value);
+
+    assert.deepEqual(values, [{ id: 1 }, { id: 2 }, { price: "€" }, [3]]);
+  });
+
+  it("should report parse errors with the line number", async () => {
+    const values: unknown[] = [];
+
+    await assert.rejects(
+      (async () => {
+        for await (const value of create
+          .get("https://api.example.com/export")
+          .withFetch(chunked([bytes('{"id":1}\n\n{"id":\n{"id":4}\n')]))
+          .getJsonStream()) {
+          values.push(value);
+        }
+      })(),
+      (error: RequestError) => error.message.startsWith("Bad JSON at line 3:") && error.body === '{"id":' && error.status === 200
+    );
+    assert.deepEqual(values, [{ id: 1 }]);
+  });
+
+  it("should cancel the body when the consumer breaks", async () => {
+    let cancelled = false;
+    const lines = Array.from({ length: 100 }, (_, i) => bytes(`{"n":${i}}\n`));
+
+    for await (const value of create
+      .get("https://api.example.com/export")
+      .withFetch(chunked(lines, () => (cancelled = true)))
+      .getJsonStream<{ n: number }>()) {
+      if (value.n === 1) break;
+    }
+
+    assert.equal(cancelled, true);
+  });
+
+  it("should report an abort while reading as an abort error", async () => {
+    const controller = new AbortController();
+    const body = new ReadableStream<Uint8Array>({
+      start(stream) {
+        stream.enqueue(bytes('{"id":1}\n'));
+        controller.signal.addEventListener("abort", () => stream.error(new DOMException("This operation was aborted", "AbortError")));
+      },
+    });
+    const stream = create
+      .get("https://api.example.com/export")
+      .withAbortController(controller)
+      .withFetch(() => Promise.resolve(new Response(body, { headers: NDJSON })))
+      .getJsonStream();
+
+    assert.deepEqual((await stream.next()).value, { id: 1 });
+    controller.abort();
+
+    await assert.rejects(stream.next(), (error: RequestError) => error.isAborted && error.message === "Aborted");
+  });
+
+  it("should read a response once and send the request only when iterated", async () => {
+    let calls = 0;
+    const fetchFn = chunked([bytes('{"a":1}\n')]);
+    const stream = create
+      .get("https://api.example.com/export")
+      .withFetch(() => {
+        calls++;
+        return fetchFn();
+      })
+      .getJsonStream();
+    assert.equal(calls, 0);
+
+    const response = await create.get("https://api.example.com/export").withFetch(fetchFn).getResponse();
+    const values: unknown[] = [];
+    for await (const value of response.getJsonStream()) values.push(value);
+    for await (const value of stream) values.push(value);
+
+    assert.deepEqual(values, [{ a: 1 }, { a: 1 }]);
+    assert.equal(calls, 1);
+    await assert.rejects(response.getJsonStream().next(), (error: RequestError) => error.message === "Body used");
+  });
+});
@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { describe, it, beforeEach, afterEach } from "node:test";
+import create, { type RequestError } from "../src/index.js";
+import { FetchMock, wait } from "./utils/fetchMock.js";
+
+describe("Rate Limit", { timeout: 10000 }, () => {
+  beforeEach(() => {
+    FetchMock.install();
+    FetchMock.reset();
+  });
+
+  afterEach(() => {
+    FetchMock.restore();
+  });
+
+  it("should allow a burst, then space requests out", async () => {
+    for (let i = 0; i < 4; i++) FetchMock.mockResponseOnce({ body: { i } });
+    const api = create.api().withBaseURL("https://api.example.com").withRateLimit({ requests: 2, perMs: 100 });
+    const start = Date.now();
+
+    const requests = [1, 2, 3, 4].map(id => api.get(`/items/${id}`).getJson());
+    await wait(10);
+    assert.equal(FetchMock.mock.calls.length, 2);
+
+    await Promise.all(requests);
+    assert.ok(Date.now() - start >= 90, "fourth request should wait for a second token");
+  });
+
+  it("should honor a smaller burst", async () => {
+    for (let i = 0; i < 3; i++) FetchMock.mockResponseOnce({ body: {} });
+    const api = create.api().withBaseURL("https://api.example.com").withRateLimit({ requests: 3, perMs: 150, burst: 1 });
+
+    const requests = [1, 2, 3].map(id => api.get(`/items/${id}`).getJson());
+    await wait(10);
+    assert.equal(FetchMock.mock.calls.length, 1);
+
+    await Promise.all(requests);
+  });
+
+  it("should pause until RateLimit-Reset when no requests remain", async () => {
+    FetchMock.mockResponseOnce({ body: {}, headers: { "content-type": "application/json", "ratelimit-remaining": "0", "ratelimit-reset": "0.06" } });
+    FetchMock.mockResponseOnce({ body: {} });
+    const api = create.api().withBaseURL("https://api.example.com").withRateLimit({ requests: 100 });
+
+    await api.get("/first").getJson();
+    const start = Date.now();
+    await api.get("/second").getJson();
+
+    assert.ok(Date.now() - start >= 50, "should wait for the server-reported reset");
+  });
+
+  it("should ignore rate limit headers when not adaptive", async () => {
+    FetchMock.mockResponseOnce({ body: {}, headers: { "content-type": "application/json", "ratelimit-remaining": "0", "ratelimit-reset": "10" } });
+    FetchMock.mockResponseOnce({ body: {} });
+    const api = create.api().withBaseURL("https://api.example.com").withRateLimit({ requests: 100, adaptive: false });
+
+    await api.get("/first").getJson();
+    const start = Date.now();
+    await api.get("/second").getJson();
+
+    assert.ok(Date.now() - start < 100);
+  });
+
+  it("should count retries against the limit", async () => {
+    FetchMock.mockResponseOnce({ status: 503, body: {} });
+    FetchMock.mockResponseOnce({ body: { ok: true } });
+    const api = create.api().withBaseURL("https://api.example.com").withRateLimit({ requests: 1, perMs: 60 });
+    const start = Date.now();
+
+    const result = await api.get("/flaky").withRetries(1).getJson();
+
+    assert.deepEqual(result, { ok: true });
+    assert.ok(Date.now() - start >= 50, "the retry should wait for a token");
+  });
+
+  it("should not send aborted requests that are waiting", async () => {
+    FetchMock.mockResponseOnce({ body: {} });
+    FetchMock.mockResponseOnce({ body: { last: true } });
+    const api = create.api().withBaseURL("https://api.example.com").withRateLimit({ requests: 1, perMs: 40 });
+    const controller = new AbortController();
+
+    await api.get("/first").getJson();
+    const waiting = api.get("/waiting").withAbortController(controller).getJson();
+    const last = api.get("/last").getJson();
+    controller.abort();
+
+    await assert.rejects(waiting, (error: RequestError) => error.isAborted);
+    assert.deepEqual(await last, { last: true });
+    assert.deepEqual(
+      FetchMock.mock.calls.map(call => String(call[0])),
+      ["https://api.example.com/first", "https://api.example.com/last"]
+    );
+  });
+
+  it("should count waiting time towards the timeout", async () => {
+    FetchMock.mockResponseOnce({ body: {} });
+    const api = create.api().withBaseURL("https://api.example.com").withRateLimit({ requests: 1, perMs: 1000 });
+
+    await api.get("/first").getJson();
+    await assert.rejects(api.get("/second").withTimeout(20).getJson(), (error: RequestError) => error.isTimeout);
+
+    assert.equal(FetchMock.mock.calls.length, 1);
+  });
+
+  it("should throw for invalid options", () => {
+    assert.throws(() => create.api().withRateLimit({ requests: 0 }), /Bad rate limit/);
+    assert.throws(() => create.api().withRateLimit({ requests: 5, perMs: -1 }), /Bad rate limit/);
+    assert.throws(() => create.api().withRateLimit({ requests: 5, burst: 0.5 }), /Bad rate limit/);
+  });
+});
@@ -45,6 +45,30 @@ describe("RequestError", { timeout: 10000 }, () => {
     assert.equal(error.response, undefined);
   });
 
+  it("should create a deadline RequestError", () => {
+    // Arrange & Act
+    const error = RequestError.deadline("https://api.example.com", "GET", 10000);
+
+    // Assert
+    assert.equal(error.message, "Deadline:10000");
+    assert.equal(error.isDeadline, true);
+    assert.equal(error.isTimeout, true);
+    assert.equal(error.isAborted, false);
+    assert.equal(error.status, undefined);
+  });
+
+  it("should create a circuit open RequestError", () => {
+    // Arrange & Act
+    const error = RequestError.circuitOpen("https://api.example.com", "GET");
+
+    // Assert
+    assert.equal(error.message, "Circuit open");
+    assert.equal(error.isCircuitOpen, true);
+    assert.equal(error.isTimeout, false);
+    assert.equal(error.isAborted, false);
+    assert.equal(error.status, undefined);
+  });
+
   it("should create a network error RequestError", () => {
     // Arrange
     const originalError = new Error("Connection failed");
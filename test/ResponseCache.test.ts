@@ -0,0 +1,696 @@
+import assert from "node:assert/strict";
+import { describe, it, beforeEach, afterEach } from "node:test";
+import create, { MemoryCacheStore, type CacheEntry, type RequestError, type ResponseWrapper } from "../src/index.js";
+import { FetchMock, wait } from "./utils/fetchMock.js";
+import { GetRequest } from "../src/requestMethods.js";
+
+describe("Response Cache", { timeout: 10000 }, () => {
+  let store: MemoryCacheStore;
+
+  beforeEach(() => {
+    FetchMock.install();
+    FetchMock.reset();
+    store = new MemoryCacheStore();
+  });
+
+  const cacheable = { "content-type": "application/json", "cache-control": "max-age=60" };
+
+  afterEach(() => {
+    FetchMock.restore();
+  });
+
+  describe("MemoryCacheStore", () => {
+    const entry = (expires = Date.now() + 1000): CacheEntry => ({ status: 200, statusText: "OK", headers: [], body: new ArrayBuffer(0), expires });
+
+    it("should evict the least recently used entry", () => {
+      const lru = new MemoryCacheStore(2);
+      lru.set("a", entry());
+      lru.set("b", entry());
+      lru.get("a");
+      lru.set("c", entry());
+
+      assert.equal(lru.size, 2);
+      assert.ok(lru.get("a"));
+      assert.equal(lru.get("b"), undefined);
+      assert.ok(lru.get("c"));
+    });
+
+    it("should delete and clear entries", () => {
+      store.set("a", entry());
+      store.set("b", entry());
+      store.delete("a");
+      assert.equal(store.get("a"), undefined);
+
+      store.clear();
+      assert.equal(store.size, 0);
+    });
+  });
+
+  it("should serve repeated GET requests from the cache", async () => {
+    FetchMock.mockResponseOnce({ body: { id: 1 }, headers: cacheable });
+
+    const first = await create.get("https://api.example.com/users/1").withResponseCache({ store }).getResponse();
+    const second = await create.get("https://api.example.com/users/1").withResponseCache({ store }).getResponse();
+
+    assert.equal(first.fromCache, false);
+    assert.equal(second.fromCache, true);
+    assert.deepEqual(await first.getJson(), { id: 1 });
+    assert.deepEqual(await second.getJson(), { id: 1 });
+    assert.equal(second.status, 200);
+    assert.equal(second.headers.get("content-type"), "application/json");
+    assert.equal(FetchMock.mock.calls.length, 1);
+  });
+
+  it("should return an independently readable body on every hit", async () => {
+    FetchMock.mockResponseOnce({ body: "hello", headers: { "content-type": "text/plain", "cache-control": "max-age=60" } });
+
+    await create.get("https://api.example.com/text").withResponseCache({ store }).getText();
+    assert.equal(await create.get("https://api.example.com/text").withResponseCache({ store }).getText(), "hello");
+    assert.equal(await create.get("https://api.example.com/text").withResponseCache({ store }).getText(), "hello");
+  });
+
+  it("should key on method and full URL including query parameters", async () => {
+    FetchMock.mockResponseOnce({ body: { page: 1 } });
+    FetchMock.mockResponseOnce({ body: { page: 2 } });
+
+    await create.get("https://api.example.com/items").withQueryParams({ page: 1 }).withResponseCache({ store }).getJson();
+    const result = await create.get("https://api.example.com/items").withQueryParams({ page: 2 }).withResponseCache({ store }).getJson();
+
+    assert.deepEqual(result, { page: 2 });
+    assert.equal(FetchMock.mock.calls.length, 2);
+  });
+
+  it("should not cache non-GET requests or error responses", async () => {
+    FetchMock.mockResponseOnce({ body: { created: true } });
+    FetchMock.mockResponseOnce({ body: { created: true } });
+    FetchMock.mockResponseOnce({ status: 500, body: {} });
+    FetchMock.mockResponseOnce({ body: { ok: true } });
+
+    await create.post("https://api.example.com/items").withBody({}).withResponseCache({ store }).getJson();
+    await create.post("https://api.example.com/items").withBody({}).withResponseCache({ store }).getJson();
+    await assert.rejects(create.get("https://api.example.com/flaky").withResponseCache({ store }).getJson());
+    await create.get("https://api.example.com/flaky").withResponseCache({ store }).getJson();
+
+    assert.equal(FetchMock.mock.calls.length, 4);
+  });
+
+  describe("Cache-Control", () => {
+    it("should use max-age as the lifetime over the default ttl", async () => {
+      FetchMock.mockResponseOnce({ body: {}, headers: { "content-type": "application/json", "cache-control": "max-age=120" } });
+
+      await create.get("https://api.example.com/data").withResponseCache({ store, ttl: 1000 }).getResponse();
+
+      const entry = store.get("GET https://api.example.com/data")!;
+      assert.ok(entry.expires > Date.now() + 100000);
+    });
+
+    it("should expire entries after max-age", async () => {
+      FetchMock.mockResponseOnce({ body: { v: 1 }, headers: { "content-type": "application/json", "cache-control": "max-age=0" } });
+      FetchMock.mockResponseOnce({ body: { v: 2 } });
+
+      await create.get("https://api.example.com/data").withResponseCache({ store }).getJson();
+      const result = await create.get("https://api.example.com/data").withResponseCache({ store }).getJson();
+
+      assert.deepEqual(result, { v: 2 });
+      assert.equal(FetchMock.mock.calls.length, 2);
+    });
+
+    it("should take Age off the lifetime", async () => {
+      FetchMock.mockResponseOnce({ body: {}, headers: { "content-type": "application/json", "cache-control": "max-age=120", age: "100" } });
+
+      await create.get("https://api.example.com/data").withResponseCache({ store }).getResponse();
+
+      const entry = store.get("GET https://api.example.com/data")!;
+      assert.ok(entry.expires > Date.now() + 10000 && entry.expires <= Date.now() + 20000);
+    });
+
+    it("should measure Expires from the Date header", async () => {
+      const served = Date.now() - 3600000;
+      FetchMock.mockResponseOnce({
+        body: {},
+        headers: { "content-type": "application/json", date: new Date(served).toUTCString(), expires: new Date(served + 60000).toUTCString() },
+      });
+
+      await create.get("https://api.example.com/data").withResponseCache({ store }).getResponse();
+
+      const entry = store.get("GET https://api.example.com/data")!;
+      assert.ok(entry.expires > Date.now() + 55000 && entry.expires <= Date.now() + 60000);
+    });
+
+    it("should treat an invalid Expires or max-age as already expired", async () => {
+      FetchMock.mockResponseOnce({ body: { v: 1 }, headers: { "content-type": "application/json", expires: "-1" } });
+      FetchMock.mockResponseOnce({ body: { v: 2 }, headers: { "content-type": "application/json", "cache-control": "max-age=abc" } });
+      FetchMock.mockResponseOnce({ body: { v: 3 } });
+      FetchMock.mockResponseOnce({ body: { v: 4 } });
+
+      await create.get("https://api.example.com/a").withResponseCache({ store }).getJson();
+      await create.get("https://api.example.com/b").withResponseCache({ store }).getJson();
+      const a = await create.get("https://api.example.com/a").withResponseCache({ store }).getResponse();
+      const b = await create.get("https://api.example.com/b").withResponseCache({ store }).getResponse();
+
+      assert.equal(a.fromCache, false);
+      assert.equal(b.fromCache, false);
+      assert.deepEqual(await a.getJson(), { v: 3 });
+      assert.deepEqual(await b.getJson(), { v: 4 });
+      assert.equal(FetchMock.mock.calls.length, 4);
+    });
+
+    it("should not store no-store responses or no-cache responses without validators", async () => {
+      FetchMock.mockResponseOnce({ body: {}, headers: { "content-type": "application/json", "cache-control": "no-store" } });
+      FetchMock.mockResponseOnce({ body: {}, headers: { "content-type": "application/json", "cache-control": "private, no-cache" } });
+
+      await create.get("https://api.example.com/a").withResponseCache({ store }).getJson();
+      await create.get("https://api.example.com/b").withResponseCache({ store }).getJson();
+
+      assert.equal(store.size, 0);
+    });
+
+    it("should only store responses with a lifetime or a validator", async () => {
+      FetchMock.mockResponseOnce({ body: {} });
+      FetchMock.mockResponseOnce({ body: {}, headers: { "content-type": "application/json", expires: new Date(Date.now() + 60000).toUTCString() } });
+      FetchMock.mockResponseOnce({ body: {}, headers: { "content-type": "application/json", etag: '"v1"' } });
+
+      await create.get("https://api.example.com/a").withResponseCache({ store }).getJson();
+      await create.get("https://api.example.com/b").withResponseCache({ store }).getJson();
+      await create.get("https://api.example.com/c").withResponseCache({ store, ttl: 5000 }).getJson();
+
+      assert.equal(store.get("GET https://api.example.com/a"), undefined);
+      assert.ok(store.get("GET https://api.example.com/b"));
+      const entry = store.get("GET https://api.example.com/c")!;
+      assert.ok(entry.expires > Date.now() + 4000 && entry.expires <= Date.now() + 5000);
+    });
+
+    it("should not share responses between credentials unless marked public or s-maxage", async () => {
+      FetchMock.mockResponseOnce({ body: { user: "Bearer alice" }, headers: cacheable });
+      FetchMock.mockResponseOnce({ body: { user: "Bearer bob" }, headers: cacheable });
+      const get = (token: string) => create.get("https://api.example.com/me").withBearerToken(token).withResponseCache({ store });
+
+      await get("alice").getJson();
+      assert.deepEqual(await get("bob").getJson(), { user: "Bearer bob" });
+      assert.equal(store.size, 0);
+
+      // Anonymous entries aren't served to requests with credentials either
+      FetchMock.mockResponseOnce({ body: { user: null }, headers: cacheable });
+      FetchMock.mockResponseOnce({ body: { user: "Bearer carol" }, headers: cacheable });
+      await create.get("https://api.example.com/me").withResponseCache({ store }).getJson();
+      assert.deepEqual(await get("carol").getJson(), { user: "Bearer carol" });
+
+      for (const cacheControl of ["public, max-age=60", "s-maxage=60"]) {
+        FetchMock.mockResponseOnce({ body: { shared: cacheControl }, headers: { "content-type": "application/json", "cache-control": cacheControl } });
+        const url = `https://api.example.com/shared/${cacheControl.length}`;
+        await create.get(url).withBearerToken("alice").withResponseCache({ store }).getJson();
+        const cached = await create.get(url).withHeaders({ Cookie: "session=bob" }).withResponseCache({ store }).getResponse();
+        assert.equal(cached.fromCache, true);
+      }
+      assert.equal(FetchMock.mock.calls.length, 6);
+    });
+
+    it("should bypass the cache for requests with Cache-Control: no-store", async () => {
+      FetchMock.mockResponseOnce({ body: { v: 1 } });
+      FetchMock.mockResponseOnce({ body: { v: 2 } });
+
+      await create.get("https://api.example.com/data").withResponseCache({ store }).getJson();
+      const result = await create.get("https://api.example.com/data").withHeaders({ "Cache-Control": "no-store" }).withResponseCache({ store }).getJson();
+
+      assert.deepEqual(result, { v: 2 });
+      assert.equal(FetchMock.mock.calls.length, 2);
+    });
+
+    it("should refresh the stored entry for reload cache mode", async () => {
+      FetchMock.mockResponseOnce({ body: { v: 1 }, headers: cacheable });
+      FetchMock.mockResponseOnce({ body: { v: 2 }, headers: cacheable });
+
+      await create.get("https://api.example.com/data").withResponseCache({ store }).getJson();
+      await create.get("https://api.example.com/data").withCache("reload").withResponseCache({ store }).getJson();
+      const result = await create.get("https://api.example.com/data").withResponseCache({ store }).getJson();
+
+      assert.deepEqual(result, { v: 2 });
+      assert.equal(FetchMock.mock.calls.length, 2);
+    });
+  });
+
+  describe("Vary", () => {
+    it("should only match requests with the same varying headers", async () => {
+      const headers = { ...cacheable, vary: "Accept-Language" };
+      FetchMock.mockResponseOnce({ body: { lang: "en" }, headers });
+      FetchMock.mockResponseOnce({ body: { lang: "fr" }, headers });
+
+      const get = (lang: string) => create.get("https://api.example.com/greeting").withHeaders({ "Accept-Language": lang }).withResponseCache({ store });
+
+      await get("en").getJson();
+      assert.deepEqual(await get("fr").getJson(), { lang: "fr" });
+      assert.deepEqual(await get("fr").getJson(), { lang: "fr" });
+      assert.equal(FetchMock.mock.calls.length, 2);
+    });
+
+    it("should keep one entry per variant", async () => {
+      const headers = { ...cacheable, vary: "Accept-Language" };
+      FetchMock.mockResponseOnce({ body: { lang: "en" }, headers });
+      FetchMock.mockResponseOnce({ body: { lang: "fr" }, headers });
+
+      const get = (lang: string) => create.get("https://api.example.com/greeting").withHeaders({ "Accept-Language": lang }).withResponseCache({ store });
+
+      await get("en").getJson();
+      await get("fr").getJson();
+      const [en, fr] = [await get("en").getResponse(), await get("fr").getResponse()];
+
+      assert.equal(en.fromCache && fr.fromCache, true);
+      assert.deepEqual(await en.getJson(), { lang: "en" });
+      assert.deepEqual(await fr.getJson(), { lang: "fr" });
+      assert.equal(FetchMock.mock.calls.length, 2);
+    });
+
+    it("should vary on the headers set by request interceptors", async () => {
+      FetchMock.mockResponseOnce({ body: { user: "alice" }, headers: { ...cacheable, "cache-control": "public, max-age=60", vary: "Authorization" } });
+      FetchMock.mockResponseOnce({ body: { user: "bob" }, headers: { ...cacheable, "cache-control": "public, max-age=60", vary: "Authorization" } });
+
+      const get = (user: string) =>
+        create
+          .get("https://api.example.com/me")
+          .withRequestInterceptor(config => ({ ...config, headers: { ...config.headers, Authorization: `Bearer ${user}` } }))
+          .withResponseCache({ store });
+
+      await get("alice").getJson();
+      const bob = await get("bob").getResponse();
+
+      assert.equal(bob.fromCache, false);
+      assert.deepEqual(await bob.getJson(), { user: "bob" });
+    });
+
+    it("should not store responses to credentials added by request interceptors", async () => {
+      FetchMock.mockResponseOnce({ body: { user: "alice" }, headers: cacheable });
+
+      await create
+        .get("https://api.example.com/me")
+        .withRequestInterceptor(config => ({ ...config, headers: { ...config.headers, Authorization: "Bearer alice" } }))
+        .withResponseCache({ store })
+        .getJson();
+
+      assert.equal(store.size, 0);
+    });
+
+    it("should not store Vary: * responses", async () => {
+      FetchMock.mockResponseOnce({ body: {}, headers: { ...cacheable, vary: "*" } });
+
+      await create.get("https://api.example.com/data").withResponseCache({ store }).getJson();
+
+      assert.equal(store.size, 0);
+    });
+  });
+
+  describe("revalidation", () => {
+    const etagHeaders = { "content-type": "application/json", etag: '"v1"', "cache-control": "max-age=0" };
+    const notModified = (headers: Record<string, string> = {}) => FetchMock.mockResponseOnce({ status: 304, statusText: "Not Modified", headers, body: null });
+    const sentHeaders = (call: number) => new Headers(FetchMock.mock.calls[call][1].headers as Record<string, string>);
+
+    it("should send If-None-Match for stale entries and serve the cached body on 304", async () => {
+      FetchMock.mockResponseOnce({ body: { id: 1 }, headers: etagHeaders });
+      notModified();
+
+      await create.get("https://api.example.com/users/1").withResponseCache({ store }).getJson();
+      const response = await create.get("https://api.example.com/users/1").withResponseCache({ store }).getResponse();
+
+      assert.equal(sentHeaders(1).get("If-None-Match"), '"v1"');
+      assert.equal(response.status, 200);
+      assert.equal(response.fromCache, true);
+      assert.deepEqual(await response.getJson(), { id: 1 });
+    });
+
+    it("should send If-Modified-Since for entries with Last-Modified", async () => {
+      const lastModified = "Wed, 21 Oct 2015 07:28:00 GMT";
+      FetchMock.mockResponseOnce({ body: {}, headers: { "content-type": "application/json", "last-modified": lastModified, "cache-control": "max-age=0" } });
+      notModified();
+
+      await create.get("https://api.example.com/data").withResponseCache({ store }).getJson();
+      await create.get("https://api.example.com/data").withResponseCache({ store }).getJson();
+
+      assert.equal(sentHeaders(1).get("If-Modified-Since"), lastModified);
+    });
+
+    it("should renew the entry lifetime from the 304 headers", async () => {
+      FetchMock.mockResponseOnce({ body: { id: 1 }, headers: etagHeaders });
+      notModified({ "cache-control": "max-age=60" });
+
+      await create.get("https://api.example.com/users/1").withResponseCache({ store }).getJson();
+      await create.get("https://api.example.com/users/1").withResponseCache({ store }).getJson();
+      const cached = await create.get("https://api.example.com/users/1").withResponseCache({ store }).getResponse();
+
+      assert.equal(cached.fromCache, true);
+      assert.deepEqual(await cached.getJson(), { id: 1 });
+      assert.equal(FetchMock.mock.calls.length, 2);
+    });
+
+    it("should replace the entry when the resource changed", async () => {
+      FetchMock.mockResponseOnce({ body: { v: 1 }, headers: etagHeaders });
+      FetchMock.mockResponseOnce({ body: { v: 2 }, headers: { ...etagHeaders, etag: '"v2"' } });
+      notModified();
+
+      await create.get("https://api.example.com/data").withResponseCache({ store }).getJson();
+      const changed = await create.get("https://api.example.com/data").withResponseCache({ store }).getResponse();
+      const revalidated = await create.get("https://api.example.com/data").withResponseCache({ store }).getJson();
+
+      assert.equal(changed.fromCache, false);
+      assert.deepEqual(await changed.getJson(), { v: 2 });
+      assert.equal(sentHeaders(2).get("If-None-Match"), '"v2"');
+      assert.deepEqual(revalidated, { v: 2 });
+    });
+
+    it("should store no-cache responses with validators and revalidate them on every use", async () => {
+      FetchMock.mockResponseOnce({ body: { id: 1 }, headers: { "content-type": "application/json", etag: '"v1"', "cache-control": "no-cache" } });
+      notModified();
+
+      await create.get("https://api.example.com/users/1").withResponseCache({ store }).getJson();
+      const result = await create.get("https://api.example.com/users/1").withResponseCache({ store }).getJson();
+
+      assert.deepEqual(result, { id: 1 });
+      assert.equal(sentHeaders(1).get("If-None-Match"), '"v1"');
+    });
+
+    it("should revalidate fresh entries for no-cache cache mode", async () => {
+      FetchMock.mockResponseOnce({ body: { id: 1 }, headers: { ...etagHeaders, "cache-control": "max-age=60" } });
+      notModified();
+
+      await create.get("https://api.example.com/users/1").withResponseCache({ store }).getJson();
+      const response = await create.get("https://api.example.com/users/1").withCache("no-cache").withResponseCache({ store }).getResponse();
+
+      assert.equal(FetchMock.mock.calls.length, 2);
+      assert.equal(response.fromCache, true);
+    });
+
+    it("should not override conditional headers set by the caller", async () => {
+      FetchMock.mockResponseOnce({ body: { id: 1 }, headers: etagHeaders });
+      notModified();
+
+      await create.get("https://api.example.com/users/1").withResponseCache({ store }).getJson();
+      const response = await create.get("https://api.example.com/users/1").withHeaders({ "If-None-Match": '"mine"' }).withResponseCache({ store }).getResponse();
+
+      assert.equal(sentHeaders(1).get("If-None-Match"), '"mine"');
+      assert.equal(response.status, 304);
+      assert.equal(response.fromCache, false);
+    });
+  });
+
+  describe("stale-while-revalidate", () => {
+    const staleHeaders = { "content-type": "application/json", "cache-control": "max-age=0" };
+
+    it("should serve stale responses immediately and refresh them in the background", async () => {
+      FetchMock.mockResponseOnce({ body: { v: 1 }, headers: staleHeaders });
+      FetchMock.mockResponseOnce({ body: { v: 2 }, headers: cacheable });
+
+      await create.get("https://api.example.com/data").withResponseCache({ store }).getJson();
+
+      let updated!: (response: ResponseWrapper) => void;
+      const update = new Promise<ResponseWrapper>(resolve => (updated = resolve));
+      const stale = await create.get("https://api.example.com/data").withResponseCache({ store }).withStaleWhileRevalidate({ onUpdate: updated }).getResponse();
+
+      assert.equal(stale.fromCache, true);
+      assert.equal(stale.stale, true);
+      assert.deepEqual(await stale.getJson(), { v: 1 });
+
+      const fresh = await update;
+      assert.equal(fresh.fromCache, false);
+      assert.deepEqual(await fresh.getJson(), { v: 2 });
+
+      const cached = await create.get("https://api.example.com/data").withResponseCache({ store }).getResponse();
+      assert.equal(cached.fromCache, true);
+      assert.equal(cached.stale, false);
+      assert.equal(FetchMock.mock.calls.length, 2);
+    });
+
+    it("should not call onUpdate when the refresh is a 304", async () => {
+      FetchMock.mockResponseOnce({ body: { v: 1 }, headers: { ...staleHeaders, etag: '"v1"' } });
+      FetchMock.mockResponseOnce({ status: 304, headers: { "cache-control": "max-age=60" }, body: null });
+
+      await create.get("https://api.example.com/data").withResponseCache({ store }).getJson();
+
+      let updates = 0;
+      await create
+        .get("https://api.example.com/data")
+        .withStaleWhileRevalidate({
+          onUpdate: () => {
+            updates++;
+          },
+        })
+        .withResponseCache({ store })
+        .getJson();
+      await wait(20);
+
+      assert.equal(updates, 0);
+      assert.equal(store.get("GET https://api.example.com/data")!.expires > Date.now() + 50000, true);
+    });
+
+    it("should report background refresh failures to onError", async () => {
+      FetchMock.mockResponseOnce({ body: { v: 1 }, headers: staleHeaders });
+      FetchMock.mockResponseOnce({ status: 500, body: {} });
+
+      await create.get("https://api.example.com/data").withResponseCache({ store }).getJson();
+
+      const failed = new Promise<RequestError>(resolve => {
+        void create.get("https://api.example.com/data").withResponseCache({ store }).withStaleWhileRevalidate({ onError: resolve }).getJson();
+      });
+
+      assert.equal((await failed).status, 500);
+    });
+
+    it("should pass onUpdate rejections to onError and contain onError failures", async () => {
+      FetchMock.mockResponseOnce({ body: { v: 1 }, headers: staleHeaders });
+      FetchMock.mockResponseOnce({ body: { v: 2 }, headers: staleHeaders });
+      FetchMock.mockResponseOnce({ body: { v: 3 }, headers: staleHeaders });
+
+      await create.get("https://api.example.com/data").withResponseCache({ store }).getJson();
+
+      const failed = new Promise<RequestError>(resolve => {
+        void create
+          .get("https://api.example.com/data")
+          .withResponseCache({ store })
+          .withStaleWhileRevalidate({ onUpdate: () => Promise.reject(new Error("render failed")), onError: resolve })
+          .getJson();
+      });
+      const error = await failed;
+      assert.equal(error.message, "onUpdate: render failed");
+      assert.equal(error.status, 200);
+      await wait(20);
+
+      const unhandled: unknown[] = [];
+      const record = (reason: unknown) => unhandled.push(reason);
+      process.on("unhandledRejection", record);
+      try {
+        await create
+          .get("https://api.example.com/data")
+          .withResponseCache({ store })
+          .withStaleWhileRevalidate({
+            onUpdate: () => Promise.reject(new Error("render failed")),
+            onError: () => {
+              throw new Error("report failed");
+            },
+          })
+          .getJson();
+        await wait(20);
+      } finally {
+        process.off("unhandledRejection", record);
+      }
+      assert.deepEqual(unhandled, []);
+      assert.equal(FetchMock.mock.calls.length, 3);
+    });
+
+    it("should fetch normally past the stale-while-revalidate window", async () => {
+      FetchMock.mockResponseOnce({ body: { v: 1 }, headers: { "content-type": "application/json", "cache-control": "max-age=0, stale-while-revalidate=0" } });
+      FetchMock.mockResponseOnce({ body: { v: 2 } });
+
+      await create.get("https://api.example.com/data").withResponseCache({ store }).getJson();
+      await wait(5);
+      const response = await create.get("https://api.example.com/data").withResponseCache({ store }).withStaleWhileRevalidate().getResponse();
+
+      assert.equal(response.fromCache, false);
+      assert.deepEqual(await response.getJson(), { v: 2 });
+    });
+
+    it("should let maxStale override the directive", async () => {
+      FetchMock.mockResponseOnce({ body: { v: 1 }, headers: { "content-type": "application/json", "cache-control": "max-age=0, stale-while-revalidate=0" } });
+      FetchMock.mockResponseOnce({ body: { v: 2 } });
+
+      await create.get("https://api.example.com/data").withResponseCache({ store }).getJson();
+      await wait(5);
+      const response = await create.get("https://api.example.com/data").withResponseCache({ store }).withStaleWhileRevalidate({ maxStale: 60000 }).getResponse();
+
+      assert.equal(response.stale, true);
+    });
+
+    it("should run a single background refresh per entry", async () => {
+      FetchMock.mockResponseOnce({ body: { v: 1 }, headers: staleHeaders });
+      FetchMock.mockDelayedResponseOnce(20, { body: { v: 2 } });
+
+      await create.get("https://api.example.com/data").withResponseCache({ store }).getJson();
+      const request = () => create.get("https://api.example.com/data").withResponseCache({ store }).withStaleWhileRevalidate().getJson();
+      await Promise.all([request(), request(), request()]);
+      await wait(40);
+
+      assert.equal(FetchMock.mock.calls.length, 2);
+    });
+
+    it("should enable the response cache when used alone", async () => {
+      FetchMock.mockResponseOnce({ body: { v: 1 }, headers: cacheable });
+
+      await create.get("https://api.example.com/swr-default").withStaleWhileRevalidate().getJson();
+      const cached = await create.get("https://api.example.com/swr-default").withStaleWhileRevalidate().getResponse();
+
+      assert.equal(cached.fromCache, true);
+    });
+
+    it("should throw for an invalid maxStale", () => {
+      const request = new GetRequest("https://api.example.com/test");
+      assert.throws(() => request.withStaleWhileRevalidate({ maxStale: -1 }), /Bad maxStale/);
+    });
+  });
+
+  describe("stale-if-error", () => {
+    const headers = { "content-type": "application/json", "cache-control": "max-age=0, stale-if-error=60" };
+
+    it("should serve the stale entry when the refresh fails with a 5xx or network error", async () => {
+      FetchMock.mockResponseOnce({ body: { v: 1 }, headers });
+      FetchMock.mockResponseOnce({ status: 503, body: {} });
+      FetchMock.mockErrorOnce(new Error("Network failure"));
+
+      await create.get("https://api.example.com/data").withResponseCache({ store }).getJson();
+      const afterServerError = await create.get("https://api.example.com/data").withResponseCache({ store }).getResponse();
+      const afterNetworkError = await create.get("https://api.example.com/data").withResponseCache({ store }).getJson();
+
+      assert.equal(afterServerError.stale, true);
+      assert.deepEqual(await afterServerError.getJson(), { v: 1 });
+      assert.deepEqual(afterNetworkError, { v: 1 });
+    });
+
+    it("should not hide client errors or entries without the directive", async () => {
+      FetchMock.mockResponseOnce({ body: { v: 1 }, headers });
+      FetchMock.mockResponseOnce({ status: 404, body: {} });
+      FetchMock.mockResponseOnce({ body: { v: 1 }, headers: { "content-type": "application/json", "cache-control": "max-age=0" } });
+      FetchMock.mockResponseOnce({ status: 503, body: {} });
+
+      await create.get("https://api.example.com/a").withResponseCache({ store }).getJson();
+      await assert.rejects(create.get("https://api.example.com/a").withResponseCache({ store }).getJson(), (error: RequestError) => error.status === 404);
+      await create.get("https://api.example.com/b").withResponseCache({ store }).getJson();
+      await assert.rejects(create.get("https://api.example.com/b").withResponseCache({ store }).getJson(), (error: RequestError) => error.status === 503);
+    });
+  });
+
+  describe("invalidation", () => {
+    it("should drop the cached response of a URL after a successful unsafe request", async () => {
+      FetchMock.mockResponseOnce({ body: { v: 1 }, headers: cacheable });
+      FetchMock.mockResponseOnce({ body: {} });
+      FetchMock.mockResponseOnce({ body: { v: 2 }, headers: cacheable });
+
+      await create.get("https://api.example.com/data").withResponseCache({ store }).getJson();
+      await create.put("https://api.example.com/data").withResponseCache({ store }).withBody({ v: 2 }).getResponse();
+      const result = await create.get("https://api.example.com/data").withResponseCache({ store }).getJson();
+
+      assert.deepEqual(result, { v: 2 });
+      assert.equal(FetchMock.mock.calls.length, 3);
+    });
+
+    it("should keep the cached response when the unsafe request fails", async () => {
+      FetchMock.mockResponseOnce({ body: { v: 1 }, headers: cacheable });
+      FetchMock.mockResponseOnce({ status: 500, body: {} });
+
+      await create.get("https://api.example.com/data").withResponseCache({ store }).getJson();
+      await assert.rejects(create.del("https://api.example.com/data").withResponseCache({ store }).getResponse());
+
+      assert.ok(store.get("GET https://api.example.com/data"));
+    });
+  });
+
+  describe("conditional requests without a cache", () => {
+    it("should return a 304 answering the caller's own If-None-Match instead of throwing", async () => {
+      FetchMock.mockResponseOnce({ status: 304, statusText: "Not Modified", headers: {}, body: null });
+
+      const response = await create.get("https://api.example.com/data").withHeaders({ "If-None-Match": '"v1"' }).getResponse();
+
+      assert.equal(response.status, 304);
+      assert.equal(await response.getJson(), null);
+    });
+
+    it("should still reject an unsolicited 304", async () => {
+      FetchMock.mockResponseOnce({ status: 304, statusText: "Not Modified", headers: {}, body: null });
+
+      await assert.rejects(create.get("https://api.example.com/data").getResponse(), (error: RequestError) => error.status === 304);
+    });
+  });
+
+  describe("custom stores", () => {
+    it("should support async stores", async () => {
+      const map = new Map<string, CacheEntry>();
+      const asyncStore = {
+        get: (key: string) => Promise.resolve(map.get(key)),
+        set: (key: string, entry: CacheEntry) => Promise.resolve(void map.set(key, entry)),
+        delete: (key: string) => Promise.resolve(void map.delete(key)),
+      };
+      FetchMock.mockResponseOnce({ body: { id: 1 }, headers: cacheable });
+
+      await create.get("https://api.example.com/users/1").withResponseCache({ store: asyncStore }).getJson();
+      const cached = await create.get("https://api.example.com/users/1").withResponseCache({ store: asyncStore }).getResponse();
+
+      assert.equal(cached.fromCache, true);
+      assert.deepEqual(await cached.getJson(), { id: 1 });
+      assert.equal(map.size, 1);
+    });
+
+    it("should treat a failing store as a cache miss", async () => {
+      const brokenStore = {
+        get: () => Promise.reject(new Error("store down")),
+        set: () => Promise.reject(new Error("store down")),
+        delete: () => undefined,
+      };
+      FetchMock.mockResponseOnce({ body: { id: 1 } });
+
+      const result = await create.get("https://api.example.com/users/1").withResponseCache({ store: brokenStore }).getJson();
+
+      assert.deepEqual(result, { id: 1 });
+    });
+  });
+
+  it("should run cached responses through response interceptors", async () => {
+    FetchMock.mockResponseOnce({ body: { id: 1 }, headers: cacheable });
+    let seen = 0;
+    const request = () =>
+      create
+        .get("https://api.example.com/users/1")
+        .withResponseCache({ store })
+        .withResponseInterceptor(response => {
+          seen++;
+          return response;
+        });
+
+    await request().getJson();
+    await request().getJson();
+
+    assert.equal(seen, 2);
+  });
+
+  it("should use a shared in-memory store by default", async () => {
+    FetchMock.mockResponseOnce({ body: { shared: true }, headers: cacheable });
+
+    await create.get("https://api.example.com/shared-default").withResponseCache().getJson();
+    const cached = await create.get("https://api.example.com/shared-default").withResponseCache().getResponse();
+
+    assert.equal(cached.fromCache, true);
+  });
+
+  it("should throw for an invalid ttl", () => {
+    const request = new GetRequest("https://api.example.com/test");
+    assert.throws(() => request.withResponseCache({ ttl: -1 }), /Bad ttl/);
+    assert.throws(() => request.withResponseCache({ ttl: NaN }), /Bad ttl/);
+  });
+
+  describe("with createApi()", () => {
+    it("should share the store across requests of the instance", async () => {
+      FetchMock.mockResponseOnce({ body: { id: 1 }, headers: cacheable });
+
+      const api = create.api().withBaseURL("https://api.example.com").withResponseCache({ store });
+
+      await api.get("/users/1").getJson();
+      const cached = await api.get("/users/1").getResponse();
+
+      assert.equal(cached.fromCache, true);
+      assert.equal(FetchMock.mock.calls.length, 1);
+    });
+  });
+});
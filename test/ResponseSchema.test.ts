@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { describe, it, beforeEach, afterEach } from "node:test";
+import create, { type StandardSchemaIssue, type StandardSchemaV1 } from "../src/index.js";
+import { RequestError } from "../src/RequestError.js";
+import { FetchMock } from "./utils/fetchMock.js";
+
+interface User {
+  id: number;
+  name: string;
+}
+
+/**
+ * Minimal Standard Schema validator for `{ id: number; name: string }`, standing in for Zod, Valibot, etc.
+ * The validated name is upper-cased to check that transformed output is returned.
+ */
+const userSchema = (async = false): StandardSchemaV1<unknown, User> => {
+  const validate = (value: unknown) => {
+    const issues: StandardSchemaIssue[] = [];
+    const user = value as Partial<User> | null;
+    if (typeof user !== "object" || user === null) return { issues: [{ message: "Expected object" }] };
+    if (typeof user.id !== "number") issues.push({ message: "Expected number", path: ["id"] });
+    if (typeof user.name !== "string") issues.push({ message: "Required", path: [{ key: "name" }] });
+    return issues.length ? { issues } : { value: { id: user.id!, name: user.name!.toUpperCase() } };
+  };
+  return {
+    "~standard": {
+      version: 1,
+      vendor: "test",
+      validate: value => (async ? Promise.resolve(validate(value)) : validate(value)),
+    },
+  };
+};
+
+describe("Response Schema Validation", { timeout: 10000 }, () => {
+  beforeEach(() => {
+    FetchMock.install();
+  });
+
+  afterEach(() => {
+    FetchMock.reset();
+    FetchMock.restore();
+  });
+
+  it("should return the validated data from getData(schema)", async () => {
+    for (const async of [false, true]) {
+      FetchMock.mockResponseOnce({ body: { id: 1, name: "ada", extra: true } });
+      const user: User = await create.get("https://api.example.com/users/1").getData(userSchema(async));
+      assert.deepEqual(user, { id: 1, name: "ADA" });
+    }
+  });
+
+  it("should throw a RequestError with the issues and body when validation fails", async () => {
+    const body = { id: "1" };
+    FetchMock.mockResponseOnce({ body });
+
+    await assert.rejects(create.get("https://api.example.com/users/1").getData(userSchema()), (error: unknown) => {
+      assert(error instanceof RequestError);
+      assert.equal(error.message, "Schema: id: Expected number; name: Required");
+      assert.equal(error.status, 200);
+      assert.equal(error.body, JSON.stringify(body));
+      assert.deepEqual(error.issues, [
+        { message: "Expected number", path: ["id"] },
+        { message: "Required", path: [{ key: "name" }] },
+      ]);
+      return true;
+    });
+  });
+
+  it("should validate getJson and getData with withResponseSchema", async () => {
+    for (let i = 0; i < 3; i++) FetchMock.mockResponseOnce({ body: { id: 2, name: "grace" } });
+    const request = () => create.get("https://api.example.com/users/2").withResponseSchema(userSchema());
+
+    assert.deepEqual(await request().getJson(), { id: 2, name: "GRACE" });
+    assert.deepEqual(await request().getData<User, string>(user => user!.name), "GRACE");
+
+    const response = await request().getResponse();
+    assert.deepEqual(await response.getJson(), { id: 2, name: "GRACE" });
+    // The parsed JSON is cached; validation runs on each read
+    assert.deepEqual(await response.getData(), { id: 2, name: "GRACE" });
+  });
+
+  it("should reject invalid data from withResponseSchema, including empty responses", async () => {
+    FetchMock.mockResponseOnce({ body: { id: 3 } });
+    await assert.rejects(
+      create.get("https://api.example.com/users/3").withResponseSchema(userSchema()).getJson(),
+      (error: RequestError) => error.message === "Schema: name: Required" && error.issues?.length === 1
+    );
+
+    FetchMock.mockResponseOnce({ status: 204, headers: {} });
+    await assert.rejects(
+      create.get("https://api.example.com/users/3").withResponseSchema(userSchema()).getJson(),
+      (error: RequestError) => error.message === "Schema: Expected object"
+    );
+  });
+
+  it("should let getData(schema) replace the request schema", async () => {
+    const anything: StandardSchemaV1<unknown, string> = { "~standard": { version: 1, vendor: "test", validate: value => ({ value: JSON.stringify(value) }) } };
+    FetchMock.mockResponseOnce({ body: { id: "not a number" } });
+
+    const data = await create.get("https://api.example.com/users/4").withResponseSchema(userSchema()).getData(anything);
+    assert.equal(data, '{"id":"not a number"}');
+  });
+
+  it("should wrap errors thrown by the validator", async () => {
+    const broken: StandardSchemaV1 = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: () => {
+          throw new Error("boom");
+        },
+      },
+    };
+    FetchMock.mockResponseOnce({ body: { id: 5 } });
+
+    await assert.rejects(create.get("https://api.example.com/users/5").getData(broken), (error: RequestError) => {
+      return error instanceof RequestError && error.message === "Schema: boom" && error.issues === undefined;
+    });
+  });
+
+  it("should reject values that aren't Standard Schema validators", () => {
+    assert.throws(
+      () => create.get("https://api.example.com/users/6").withResponseSchema({ parse: () => null } as unknown as StandardSchemaV1),
+      (error: RequestError) => error instanceof RequestError && error.message === "Bad schema"
+    );
+  });
+});
@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import create, { type FetchFunction, type RequestError } from "../src/index.js";
+
+const DATA = "0123456789abcdefghij";
+
+/**
+ * Body that delivers `data` and then fails, like a dropped connection
+ */
+const interrupted = (data: string) => {
+  let sent = false;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (sent) return controller.error(new TypeError("terminated"));
+      sent = true;
+      controller.enqueue(new TextEncoder().encode(data));
+    },
+  });
+};
+
+/**
+ * Fetch stub serving the given responses in order and recording the request headers
+ */
+const serve = (...responses: Array<() => Response>) => {
+  const headers: Array<Record<string, string>> = [];
+  const fetchFn: FetchFunction = (_url, init) => {
+    headers.push(init?.headers as Record<string, string>);
+    return Promise.resolve(responses[headers.length - 1]());
+  };
+  return { fetchFn, headers };
+};
+
+describe("Resumable Downloads", { timeout: 10000 }, () => {
+  it("should resume with Range and If-Range and stitch the 206 response", async () => {
+    const { fetchFn, headers } = serve(
+      () => new Response(interrupted(DATA.slice(0, 8)), { headers: { etag: '"v1"', "content-length": "20" } }),
+      () => new Response(DATA.slice(8), { status: 206, headers: { etag: '"v1"', "content-range": "bytes 8-19/20" } })
+    );
+
+    const text = await create.get("https://api.example.com/file").withResume().withFetch(fetchFn).getText();
+
+    assert.equal(text, DATA);
+    assert.equal(headers[0].Range, undefined);
+    assert.equal(headers[1].Range, "bytes=8-");
+    assert.equal(headers[1]["If-Range"], '"v1"');
+  });
+
+  it("should resume several times and use Last-Modified without a strong ETag", async () => {
+    const lastModified = "Wed, 21 Oct 2015 07:28:00 GMT";
+    const { fetchFn, headers } = serve(
+      () => new Response(interrupted(DATA.slice(0, 5)), { headers: { etag: 'W/"weak"', "last-modified": lastModified } }),
+      () => new Response(interrupted(DATA.slice(5, 12)), { status: 206, headers: { "content-range": "bytes 5-19/20" } }),
+      () => new Response(DATA.slice(12), { status: 206, headers: { "content-range": "bytes 12-19/20" } })
+    );
+
+    const buffer = await create.get("https://api.example.com/file").withResume().withFetch(fetchFn).getArrayBuffer();
+
+    assert.equal(new TextDecoder().decode(buffer), DATA);
+    assert.deepEqual(
+      headers.slice(1).map(sent => [sent.Range, sent["If-Range"]]),
+      [
+        ["bytes=5-", lastModified],
+        ["bytes=12-", lastModified],
+      ]
+    );
+  });
+
+  it("should restart and skip the bytes already read when the server ignores ranges", async () => {
+    const { fetchFn } = serve(
+      () => new Response(interrupted(DATA.slice(0, 8)), { headers: { etag: '"v1"' } }),
+      () => new Response(DATA, { headers: { etag: '"v1"' } })
+    );
+
+    assert.equal(await create.get("https://api.example.com/file").withResume().withFetch(fetchFn).getText(), DATA);
+  });
+
+  it("should fail when the resource changed", async () => {
+    const { fetchFn } = serve(
+      () => new Response(interrupted(DATA.slice(0, 8)), { headers: { etag: '"v1"' } }),
+      () => new Response("something else", { headers: { etag: '"v2"' } })
+    );
+
+    await assert.rejects(create.get("https://api.example.com/file").withResume().withFetch(fetchFn).getText(), (error: RequestError) =>
+      error.message.includes("Resume: resource changed")
+    );
+  });
+
+  it("should not resume content-encoded responses", async () => {
+    const { fetchFn, headers } = serve(() => new Response(interrupted(DATA.slice(0, 8)), { headers: { etag: '"v1"', "content-encoding": "gzip" } }));
+
+    await assert.rejects(create.get("https://api.example.com/file").withResume().withFetch(fetchFn).getText(), (error: RequestError) => error.message.includes("terminated"));
+    assert.equal(headers.length, 1);
+
+    // Nor stitch a content-encoded resume response
+    const resumed = serve(
+      () => new Response(interrupted(DATA.slice(0, 8)), { headers: { etag: '"v1"', "content-encoding": "identity" } }),
+      () => new Response(DATA.slice(8), { status: 206, headers: { etag: '"v1"', "content-range": "bytes 8-19/20", "content-encoding": "br" } })
+    );
+    await assert.rejects(create.get("https://api.example.com/file").withResume().withFetch(resumed.fetchFn).getText(), (error: RequestError) =>
+      error.message.includes("Resume: encoded response")
+    );
+  });
+
+  it("should retry the resume request with the retry configuration", async () => {
+    const { fetchFn, headers } = serve(
+      () => new Response(interrupted(DATA.slice(0, 8))),
+      () => new Response("busy", { status: 503 }),
+      () => new Response(DATA.slice(8), { status: 206, headers: { "content-range": "bytes 8-19/20" } })
+    );
+
+    const text = await create.get("https://api.example.com/file").withRetries(1).withResume().withFetch(fetchFn).getText();
+
+    assert.equal(text, DATA);
+    assert.deepEqual(
+      headers.map(sent => sent.Range),
+      [undefined, "bytes=8-", "bytes=8-"]
+    );
+  });
+
+  it("should give up after maxResumes", async () => {
+    const { fetchFn } = serve(
+      () => new Response(interrupted(DATA.slice(0, 8))),
+      () => new Response(interrupted(DATA.slice(8, 10)), { status: 206, headers: { "content-range": "bytes 8-19/20" } })
+    );
+
+    await assert.rejects(create.get("https://api.example.com/file").withResume({ maxResumes: 1 }).withFetch(fetchFn).getText(), (error: RequestError) =>
+      error.message.includes("terminated")
+    );
+  });
+
+  it("should not resume without withResume", async () => {
+    const { fetchFn, headers } = serve(() => new Response(interrupted(DATA.slice(0, 8))));
+
+    await assert.rejects(create.get("https://api.example.com/file").withFetch(fetchFn).getText());
+    assert.equal(headers.length, 1);
+  });
+
+  it("should reject a bad maxResumes", () => {
+    assert.throws(
+      () => create.get("https://api.example.com/file").withResume({ maxResumes: -1 }),
+      (error: RequestError) => error.message === "Bad maxResumes: -1"
+    );
+  });
+});
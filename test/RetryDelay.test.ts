@@ -556,6 +556,127 @@ describe("Retry Delay", { timeout: 10000 }, () => {
     });
   });
 
+  describe("withRetries() - Retry-After handling", () => {
+    it("should pass the server-requested wait to onRetry and the delay function", async () => {
+      FetchMock.mockResponseOnce({ status: 429, headers: { "Retry-After": "0.01" }, body: {} });
+      FetchMock.mockResponseOnce({ body: { success: true } });
+
+      const seen: Array<number | undefined> = [];
+      const result = await create
+        .get("https://api.example.com/data")
+        .withRetries({
+          attempts: 1,
+          delay: ({ retryAfter }) => {
+            seen.push(retryAfter);
+            return 0;
+          },
+        })
+        .onRetry(({ retryAfter }) => {
+          seen.push(retryAfter);
+        })
+        .getJson();
+
+      assert.deepEqual(result, { success: true });
+      assert.deepEqual(seen, [10, 10]);
+    });
+
+    it("should ignore Retry-After unless retryAfterMode is set", async () => {
+      FetchMock.mockResponseOnce({ status: 503, headers: { "Retry-After": "5" }, body: {} });
+      FetchMock.mockResponseOnce({ body: { success: true } });
+
+      const startTime = Date.now();
+      await create.get("https://api.example.com/data").withRetries({ attempts: 1, delay: 0 }).getJson();
+
+      assert(Date.now() - startTime < 1000, "Should not have waited for Retry-After");
+    });
+
+    it("should override the computed delay in override mode", async () => {
+      FetchMock.mockResponseOnce({ status: 429, headers: { "Retry-After": "0.03" }, body: {} });
+      FetchMock.mockResponseOnce({ body: { success: true } });
+
+      const startTime = Date.now();
+      await create.get("https://api.example.com/data").withRetries({ attempts: 1, delay: 5000, retryAfterMode: "override" }).getJson();
+      const duration = Date.now() - startTime;
+
+      assert(duration >= 25 && duration < 1000, `Expected ~30ms delay, got ${duration}ms`);
+    });
+
+    it("should cap the computed delay in cap mode", async () => {
+      FetchMock.mockResponseOnce({ status: 503, headers: { "RateLimit-Reset": "0.02" }, body: {} });
+      FetchMock.mockResponseOnce({ status: 503, headers: { "Retry-After": "5" }, body: {} });
+      FetchMock.mockResponseOnce({ body: { success: true } });
+
+      const delays: number[] = [];
+      const startTime = Date.now();
+      await create
+        .get("https://api.example.com/data")
+        .withRetries({
+          attempts: 2,
+          delay: () => {
+            delays.push(10);
+            return 10;
+          },
+          retryAfterMode: "cap",
+        })
+        .getJson();
+      const duration = Date.now() - startTime;
+
+      // First wait is capped at 20ms by the server hint, second uses the smaller computed 10ms
+      assert.equal(delays.length, 2);
+      assert(duration >= 20 && duration < 1000, `Expected ~30ms total delay, got ${duration}ms`);
+    });
+
+    it("should parse HTTP date values", async () => {
+      const retryAt = new Date(Date.now() + 60000).toUTCString();
+      FetchMock.mockResponseOnce({ status: 429, headers: { "Retry-After": retryAt }, body: {} });
+      FetchMock.mockResponseOnce({ body: { success: true } });
+
+      let retryAfter: number | undefined;
+      await create
+        .get("https://api.example.com/data")
+        .withRetries({ attempts: 1, retryAfterMode: "override", maxDelay: 0 })
+        .onRetry(options => {
+          retryAfter = options.retryAfter;
+        })
+        .getJson();
+
+      assert(retryAfter !== undefined && retryAfter > 50000 && retryAfter <= 60000, `Unexpected retryAfter ${retryAfter}`);
+    });
+
+    it("should bound server-provided waits with maxDelay", async () => {
+      FetchMock.mockResponseOnce({ status: 429, headers: { "Retry-After": "120" }, body: {} });
+      FetchMock.mockResponseOnce({ body: { success: true } });
+
+      const startTime = Date.now();
+      const result = await create.get("https://api.example.com/data").withRetries({ attempts: 1, retryAfterMode: "override", maxDelay: 10 }).getJson();
+
+      assert.deepEqual(result, { success: true });
+      assert(Date.now() - startTime < 1000, "maxDelay should bound the wait");
+    });
+
+    it("should only use Retry-After from 429 and 503 responses", async () => {
+      FetchMock.mockResponseOnce({ status: 500, headers: { "Retry-After": "1" }, body: {} });
+      FetchMock.mockResponseOnce({ body: { success: true } });
+
+      let retryAfter: number | undefined = -1;
+      await create
+        .get("https://api.example.com/data")
+        .withRetries({ attempts: 1, retryAfterMode: "override" })
+        .onRetry(options => {
+          retryAfter = options.retryAfter;
+        })
+        .getJson();
+
+      assert.equal(retryAfter, undefined);
+    });
+
+    it("should throw for invalid retryAfterMode and maxDelay", () => {
+      const request = new GetRequest("https://api.example.com/test");
+      assert.throws(() => request.withRetries({ attempts: 1, retryAfterMode: "always" as any }), /Bad retryAfterMode: always/);
+      assert.throws(() => request.withRetries({ attempts: 1, maxDelay: -1 }), /Bad maxDelay: -1/);
+    });
+  });
+
   describe("withRetries() - edge cases", () => {
     it("should handle zero retries with delay", async () => {
       FetchMock.mockErrorOnce(new Error("Network failure 1"));
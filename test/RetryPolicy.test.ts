@@ -0,0 +1,217 @@
+import assert from "node:assert/strict";
+import { describe, it, beforeEach, afterEach } from "node:test";
+import create, { type RequestError } from "../src/index.js";
+import { FetchMock } from "./utils/fetchMock.js";
+import { GetRequest } from "../src/requestMethods.js";
+
+describe("Retry Policy", { timeout: 10000 }, () => {
+  beforeEach(() => {
+    FetchMock.install();
+    FetchMock.reset();
+  });
+
+  afterEach(() => {
+    FetchMock.restore();
+  });
+
+  describe("default policy", () => {
+    it("should not retry client errors", async () => {
+      FetchMock.mockResponseOnce({ status: 404, statusText: "Not Found", body: { error: "missing" } });
+      FetchMock.mockResponseOnce({ body: { success: true } });
+
+      await assert.rejects(create.get("https://api.example.com/data").withRetries(2).getJson(), (error: RequestError) => error.status === 404);
+      assert.equal(FetchMock.mock.calls.length, 1);
+    });
+
+    it("should not retry 400 and 401 responses", async () => {
+      for (const status of [400, 401]) {
+        FetchMock.reset();
+        FetchMock.mockResponseOnce({ status, body: {} });
+
+        await assert.rejects(create.get("https://api.example.com/data").withRetries(2).getResponse(), (error: RequestError) => error.status === status);
+        assert.equal(FetchMock.mock.calls.length, 1, `status ${status} should not be retried`);
+      }
+    });
+
+    it("should retry 408, 429 and 5xx responses", async () => {
+      FetchMock.mockResponseOnce({ status: 408, body: {} });
+      FetchMock.mockResponseOnce({ status: 429, body: {} });
+      FetchMock.mockResponseOnce({ status: 500, body: {} });
+      FetchMock.mockResponseOnce({ status: 503, body: {} });
+      FetchMock.mockResponseOnce({ body: { success: true } });
+
+      const result = await create.get("https://api.example.com/data").withRetries(4).getJson();
+
+      assert.deepEqual(result, { success: true });
+      assert.equal(FetchMock.mock.calls.length, 5);
+    });
+
+    it("should retry network errors", async () => {
+      FetchMock.mockErrorOnce(new Error("Network failure"));
+      FetchMock.mockResponseOnce({ body: { success: true } });
+
+      const result = await create.get("https://api.example.com/data").withRetries(1).getJson();
+
+      assert.deepEqual(result, { success: true });
+      assert.equal(FetchMock.mock.calls.length, 2);
+    });
+
+    it("should retry timeouts", async () => {
+      FetchMock.mockDelayedResponseOnce(200, { body: { slow: true } });
+      FetchMock.mockResponseOnce({ body: { success: true } });
+
+      const result = await create.get("https://api.example.com/data").withTimeout(20).withRetries(1).getJson();
+
+      assert.deepEqual(result, { success: true });
+      assert.equal(FetchMock.mock.calls.length, 2);
+    });
+
+    it("should never retry aborted requests", async () => {
+      const controller = new AbortController();
+      controller.abort();
+      let retried = false;
+
+      await assert.rejects(
+        create
+          .get("https://api.example.com/data")
+          .withAbortController(controller)
+          .withRetries(3)
+          .onRetry(() => {
+            retried = true;
+          })
+          .getResponse(),
+        (error: RequestError) => error.isAborted
+      );
+      assert.equal(retried, false);
+      assert.equal(FetchMock.mock.calls.length, 1);
+    });
+  });
+
+  describe("retryOn", () => {
+    it("should only retry the listed statuses", async () => {
+      FetchMock.mockResponseOnce({ status: 409, body: {} });
+      FetchMock.mockResponseOnce({ body: { success: true } });
+
+      const result = await create
+        .get("https://api.example.com/data")
+        .withRetries({ attempts: 1, retryOn: [409] })
+        .getJson();
+
+      assert.deepEqual(result, { success: true });
+    });
+
+    it("should replace the default statuses", async () => {
+      FetchMock.mockResponseOnce({ status: 500, body: {} });
+
+      await assert.rejects(
+        create
+          .get("https://api.example.com/data")
+          .withRetries({ attempts: 2, retryOn: [503] })
+          .getResponse(),
+        (error: RequestError) => error.status === 500
+      );
+      assert.equal(FetchMock.mock.calls.length, 1);
+    });
+
+    it("should still retry network errors", async () => {
+      FetchMock.mockErrorOnce(new Error("Network failure"));
+      FetchMock.mockResponseOnce({ body: { success: true } });
+
+      const result = await create.get("https://api.example.com/data").withRetries({ attempts: 1, retryOn: [] }).getJson();
+
+      assert.deepEqual(result, { success: true });
+    });
+
+    it("should throw for invalid retryOn", () => {
+      const request = new GetRequest("https://api.example.com/test");
+      assert.throws(() => request.withRetries({ attempts: 1, retryOn: "500" as any }), /Bad retryOn/);
+      assert.throws(() => request.withRetries({ attempts: 1, retryOn: [500.5] }), /Bad retryOn/);
+    });
+  });
+
+  describe("shouldRetry", () => {
+    it("should take precedence over the default policy", async () => {
+      FetchMock.mockResponseOnce({ status: 404, body: {} });
+      FetchMock.mockResponseOnce({ body: { success: true } });
+
+      const result = await create
+        .get("https://api.example.com/data")
+        .withRetries({ attempts: 1, shouldRetry: ({ error }) => error.status === 404 })
+        .getJson();
+
+      assert.deepEqual(result, { success: true });
+    });
+
+    it("should stop retrying when it returns false", async () => {
+      FetchMock.mockResponseOnce({ status: 503, body: {} });
+
+      await assert.rejects(
+        create
+          .get("https://api.example.com/data")
+          .withRetries({ attempts: 3, shouldRetry: () => false })
+          .getResponse(),
+        (error: RequestError) => error.status === 503
+      );
+      assert.equal(FetchMock.mock.calls.length, 1);
+    });
+
+    it("should receive the attempt number and support async predicates", async () => {
+      FetchMock.mockErrorOnce(new Error("Network failure 1"));
+      FetchMock.mockErrorOnce(new Error("Network failure 2"));
+      FetchMock.mockErrorOnce(new Error("Network failure 3"));
+
+      const attempts: number[] = [];
+      await assert.rejects(
+        create
+          .get("https://api.example.com/data")
+          .withRetries({
+            attempts: 5,
+            shouldRetry: ({ attempt }) => {
+              attempts.push(attempt);
+              return Promise.resolve(attempt < 3);
+            },
+          })
+          .getResponse()
+      );
+      assert.deepEqual(attempts, [1, 2, 3]);
+      assert.equal(FetchMock.mock.calls.length, 3);
+    });
+
+    it("should not be able to retry aborted requests", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await assert.rejects(
+        create
+          .get("https://api.example.com/data")
+          .withAbortController(controller)
+          .withRetries({ attempts: 2, shouldRetry: () => true })
+          .getResponse(),
+        (error: RequestError) => error.isAborted
+      );
+      assert.equal(FetchMock.mock.calls.length, 1);
+    });
+
+    it("should throw for a non-function shouldRetry", () => {
+      const request = new GetRequest("https://api.example.com/test");
+      assert.throws(() => request.withRetries({ attempts: 1, shouldRetry: true as any }), /Bad shouldRetry/);
+    });
+  });
+
+  describe("with createApi()", () => {
+    it("should apply the retry policy to all requests", async () => {
+      FetchMock.mockResponseOnce({ status: 404, body: {} });
+      FetchMock.mockResponseOnce({ status: 502, body: {} });
+      FetchMock.mockResponseOnce({ body: { success: true } });
+
+      const api = create
+        .api()
+        .withBaseURL("https://api.example.com")
+        .withRetries({ attempts: 1, retryOn: [502] });
+
+      await assert.rejects(api.get("/missing").getResponse(), (error: RequestError) => error.status === 404);
+      assert.deepEqual(await api.get("/flaky").getJson(), { success: true });
+      assert.equal(FetchMock.mock.calls.length, 3);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { describe, it, beforeEach, afterEach } from "node:test";
+import create, { RetryStrategies, RequestError } from "../src/index.js";
+import { FetchMock } from "./utils/fetchMock.js";
+
+const error = new RequestError("HTTP 503", "https://api.example.com", "GET", { status: 503 });
+const delays = (fn: ReturnType<typeof RetryStrategies.exponential>, count: number): number[] => {
+  let previousDelay: number | undefined;
+  return Array.from({ length: count }, (_, i) => (previousDelay = fn({ attempt: i + 1, error, previousDelay })));
+};
+
+describe("Retry Strategies", { timeout: 10000 }, () => {
+  describe("exponential", () => {
+    it("should double the delay and cap it at max", () => {
+      assert.deepEqual(delays(RetryStrategies.exponential({ base: 100, max: 500 }), 5), [100, 200, 400, 500, 500]);
+    });
+
+    it("should use sensible defaults", () => {
+      assert.deepEqual(delays(RetryStrategies.exponential(), 3), [1000, 2000, 4000]);
+      assert.equal(RetryStrategies.exponential()({ attempt: 10, error }), 30000);
+    });
+
+    it("should support a custom factor", () => {
+      assert.deepEqual(delays(RetryStrategies.exponential({ base: 10, factor: 3 }), 3), [10, 30, 90]);
+    });
+
+    it("should apply full jitter using the random hook", () => {
+      assert.deepEqual(delays(RetryStrategies.exponential({ base: 100, jitter: "full", random: () => 0.5 }), 3), [50, 100, 200]);
+    });
+
+    it("should apply equal jitter using the random hook", () => {
+      assert.deepEqual(delays(RetryStrategies.exponential({ base: 100, jitter: "equal", random: () => 0.5 }), 3), [75, 150, 300]);
+    });
+  });
+
+  describe("fullJitter", () => {
+    it("should stay between 0 and the exponential delay", () => {
+      const fn = RetryStrategies.fullJitter({ base: 100, max: 1000 });
+      for (let attempt = 1; attempt <= 6; attempt++) {
+        const delay = fn({ attempt, error });
+        assert(delay >= 0 && delay <= Math.min(1000, 100 * 2 ** (attempt - 1)));
+      }
+    });
+  });
+
+  describe("decorrelatedJitter", () => {
+    it("should grow from the previous delay and respect max", () => {
+      assert.deepEqual(delays(RetryStrategies.decorrelatedJitter({ base: 100, max: 1000, random: () => 1 }), 4), [300, 900, 1000, 1000]);
+    });
+
+    it("should never go below base", () => {
+      assert.deepEqual(delays(RetryStrategies.decorrelatedJitter({ base: 100, random: () => 0 }), 3), [100, 100, 100]);
+    });
+
+    it("should reset on the first retry of a new request", () => {
+      const fn = RetryStrategies.decorrelatedJitter({ base: 100, max: 10000, random: () => 1 });
+      assert.deepEqual(delays(fn, 2), [300, 900]);
+      assert.deepEqual(delays(fn, 2), [300, 900]);
+    });
+
+    it("should keep the delays of concurrent requests apart", () => {
+      const fn = RetryStrategies.decorrelatedJitter({ base: 100, max: 10000, random: () => 1 });
+      assert.equal(fn({ attempt: 1, error }), 300);
+      assert.equal(fn({ attempt: 2, error, previousDelay: 300 }), 900);
+      // Another request starting meanwhile doesn't reset the first one
+      assert.equal(fn({ attempt: 1, error }), 300);
+      assert.equal(fn({ attempt: 3, error, previousDelay: 900 }), 2700);
+    });
+  });
+
+  describe("linear", () => {
+    it("should grow linearly and cap at max", () => {
+      assert.deepEqual(delays(RetryStrategies.linear({ base: 500, max: 1200 }), 4), [500, 1000, 1200, 1200]);
+    });
+  });
+
+  describe("seeded", () => {
+    it("should produce reproducible sequences in [0, 1)", () => {
+      const a = RetryStrategies.seeded(42);
+      const b = RetryStrategies.seeded(42);
+      const values = Array.from({ length: 5 }, () => a());
+      assert.deepEqual(
+        values,
+        Array.from({ length: 5 }, () => b())
+      );
+      assert(values.every(v => v >= 0 && v < 1));
+      assert.notDeepEqual(values, Array.from({ length: 5 }, RetryStrategies.seeded(7)));
+    });
+
+    it("should make jittered delays exact", () => {
+      const expected = delays(RetryStrategies.fullJitter({ base: 100, random: RetryStrategies.seeded(1) }), 3);
+      assert.deepEqual(delays(RetryStrategies.fullJitter({ base: 100, random: RetryStrategies.seeded(1) }), 3), expected);
+    });
+  });
+
+  describe("with withRetries()", () => {
+    beforeEach(() => {
+      FetchMock.install();
+      FetchMock.reset();
+    });
+
+    afterEach(() => {
+      FetchMock.restore();
+    });
+
+    it("should plug into RetryConfig.delay", async () => {
+      FetchMock.mockErrorOnce(new Error("Network failure 1"));
+      FetchMock.mockErrorOnce(new Error("Network failure 2"));
+      FetchMock.mockResponseOnce({ body: { success: true } });
+
+      const startTime = Date.now();
+      const result = await create
+        .get("https://api.example.com/data")
+        .withRetries({ attempts: 2, delay: RetryStrategies.exponential({ base: 10, max: 100 }) })
+        .getJson();
+      const duration = Date.now() - startTime;
+
+      assert.deepEqual(result, { success: true });
+      // Should have waited at least 30ms (10ms + 20ms)
+      assert(duration >= 30, `Expected at least 30ms delay, got ${duration}ms`);
+    });
+
+    it("should pass the previous delay of the same request", async () => {
+      for (let i = 0; i < 2; i++) FetchMock.mockErrorOnce(new Error("Network failure"));
+      FetchMock.mockResponseOnce({ body: {} });
+      const seen: Array<number | undefined> = [];
+      const jitter = RetryStrategies.decorrelatedJitter({ base: 1, max: 100, random: () => 1 });
+
+      await create
+        .get("https://api.example.com/data")
+        .withRetries({
+          attempts: 2,
+          delay: context => {
+            seen.push(context.previousDelay);
+            return jitter(context);
+          },
+        })
+        .getJson();
+
+      assert.deepEqual(seen, [undefined, 3]);
+    });
+  });
+});
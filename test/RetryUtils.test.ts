@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { RetryUtils } from "../src/utils/RetryUtils.js";
+import { RequestError } from "../src/RequestError.js";
+
+describe("RetryUtils", { timeout: 10000 }, () => {
+  describe("parseDelay", () => {
+    it("should parse delta seconds", () => {
+      assert.equal(RetryUtils.parseDelay("120"), 120000);
+      assert.equal(RetryUtils.parseDelay(" 1.5 "), 1500);
+      assert.equal(RetryUtils.parseDelay("0"), 0);
+    });
+
+    it("should parse HTTP dates relative to now", () => {
+      const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT");
+      assert.equal(RetryUtils.parseDelay("Wed, 21 Oct 2015 07:28:30 GMT", now), 30000);
+    });
+
+    it("should clamp past dates to zero", () => {
+      const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT");
+      assert.equal(RetryUtils.parseDelay("Wed, 21 Oct 2015 07:27:00 GMT", now), 0);
+    });
+
+    it("should return undefined for missing or invalid values", () => {
+      assert.equal(RetryUtils.parseDelay(null), undefined);
+      assert.equal(RetryUtils.parseDelay(""), undefined);
+      assert.equal(RetryUtils.parseDelay("-5"), undefined);
+      assert.equal(RetryUtils.parseDelay("soon"), undefined);
+    });
+  });
+
+  describe("getRetryAfter", () => {
+    const errorWith = (status: number, headers: Record<string, string>): RequestError =>
+      RequestError.fromResponse(new Response(null, { status, headers }), "https://api.example.com", "GET");
+
+    it("should prefer Retry-After over RateLimit-Reset", () => {
+      assert.equal(RetryUtils.getRetryAfter(errorWith(429, { "Retry-After": "2", "RateLimit-Reset": "10" })), 2000);
+    });
+
+    it("should fall back to RateLimit-Reset", () => {
+      assert.equal(RetryUtils.getRetryAfter(errorWith(503, { "RateLimit-Reset": "10" })), 10000);
+    });
+
+    it("should ignore other statuses and errors without a response", () => {
+      assert.equal(RetryUtils.getRetryAfter(errorWith(500, { "Retry-After": "2" })), undefined);
+      assert.equal(RetryUtils.getRetryAfter(RequestError.timeout("https://api.example.com", "GET", 100)), undefined);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { describe, it, afterEach } from "node:test";
+import create, { createApi, type BodySerializer, type StandardSchemaV1 } from "../src/index.js";
+import { RequestError } from "../src/RequestError.js";
+import { Config } from "../src/utils/Config.js";
+
+/**
+ * Toy binary format standing in for MessagePack or CBOR: a marker byte followed by the JSON text
+ */
+const tagged = (marker: number): BodySerializer => ({
+  serialize: value => new Uint8Array([marker, ...new TextEncoder().encode(JSON.stringify(value))]),
+  parse: body => {
+    if (body[0] !== marker) throw new Error(`Bad marker ${body[0]}`);
+    return JSON.parse(new TextDecoder().decode(body.subarray(1))) as unknown;
+  },
+});
+
+/**
+ * Fetch stub recording the request content types and bodies, answering with the given response
+ */
+const recorder = (body: BodyInit | null = null, headers: Record<string, string> = {}, status = 200) => {
+  const sent: Array<{ contentType?: string; body: unknown }> = [];
+  const fetchFn = (_url: RequestInfo | URL, init?: RequestInit) => {
+    sent.push({ contentType: (init?.headers as Record<string, string> | undefined)?.["Content-Type"], body: init?.body });
+    return Promise.resolve(new Response(body, { status, headers }));
+  };
+  return { sent, fetchFn };
+};
+
+describe("Body Serializers", { timeout: 10000 }, () => {
+  afterEach(() => {
+    Config.getInstance().reset();
+  });
+
+  it("should serialize object bodies with the serializer of the request Content-Type", async () => {
+    Config.getInstance().setSerializer("application/x-tagged", tagged(7));
+    const { sent, fetchFn } = recorder();
+
+    await create.post("https://api.example.com/events").withFetch(fetchFn).withContentType("application/x-tagged; v=1").withBody({ a: 1 }).getResponse();
+    // Set after the body, and not applied to string bodies
+    await create.post("https://api.example.com/events").withFetch(fetchFn).withBody({ b: 2 }).withContentType("application/x-tagged").getResponse();
+    await create.post("https://api.example.com/events").withFetch(fetchFn).withContentType("application/x-tagged").withBody("raw").getResponse();
+    // Other content types still use JSON.stringify
+    await create.post("https://api.example.com/events").withFetch(fetchFn).withBody({ c: 3 }).getResponse();
+
+    assert.deepEqual(sent[0].body, new Uint8Array([7, ...new TextEncoder().encode('{"a":1}')]));
+    assert.deepEqual(sent[1].body, new Uint8Array([7, ...new TextEncoder().encode('{"b":2}')]));
+    assert.equal(sent[2].body, "raw");
+    assert.equal(sent[3].body, '{"c":3}');
+  });
+
+  it("should parse responses by Content-Type with getParsed", async () => {
+    Config.getInstance().setSerializer("application/x-tagged", tagged(7));
+    const get = (body: BodyInit | null, contentType?: string, status?: number) =>
+      create
+        .get("https://api.example.com/items")
+        .withFetch(recorder(body, contentType ? { "content-type": contentType } : {}, status).fetchFn)
+        .getParsed();
+
+    assert.deepEqual(await get(new Uint8Array([7, ...new TextEncoder().encode("[1,2]")]), "Application/X-Tagged; charset=binary"), [1, 2]);
+    assert.deepEqual(await get('{"ok":true}', "application/problem+json"), { ok: true });
+    assert.deepEqual(await get(new TextEncoder().encode('{"ok":true}')), { ok: true });
+    assert.equal(await get("hello", "text/plain; charset=utf-8"), "hello");
+    assert.equal(await get(null, "application/x-tagged", 204), null);
+    await assert.rejects(get("GIF89a", "image/gif"), (error: RequestError) => error instanceof RequestError && error.message === "No parser: image/gif" && error.status === 200);
+    await assert.rejects(get(new Uint8Array([1, 2]), "application/x-tagged"), (error: RequestError) => error.message === "Parse: Bad marker 1");
+  });
+
+  it("should prefer API instance serializers over global ones", async () => {
+    Config.getInstance().setSerializer("application/x-tagged", tagged(7));
+    const { sent, fetchFn } = recorder(new Uint8Array([9, ...new TextEncoder().encode('"from api"')]), { "content-type": "application/x-tagged" });
+    const api = createApi().withFetch(fetchFn).withSerializer("application/x-tagged", tagged(9)).withContentType("application/x-tagged");
+
+    assert.equal(await api.post("https://api.example.com/events").withBody({ a: 1 }).getParsed(), "from api");
+    assert.equal((sent[0].body as Uint8Array)[0], 9);
+
+    // Requests outside the API instance use the global serializer
+    await create.post("https://api.example.com/events").withFetch(fetchFn).withContentType("application/x-tagged").withBody({ a: 1 }).getResponse();
+    assert.equal((sent[1].body as Uint8Array)[0], 7);
+  });
+
+  it("should support a custom JSON serializer with BigInt and Date revival", async () => {
+    Config.getInstance().setSerializer("application/json", {
+      serialize: value => JSON.stringify(value, (_key, item: unknown) => (typeof item === "bigint" ? item.toString() : item)),
+      parse: body =>
+        JSON.parse(new TextDecoder().decode(body), (key, item: unknown) => {
+          if (key === "id") return BigInt(item as string);
+          if (key === "at") return new Date(item as string);
+          return item;
+        }) as unknown,
+    });
+    const { sent, fetchFn } = recorder('{"id":"9007199254740993","at":"2024-01-01T00:00:00.000Z"}', { "content-type": "application/json" });
+
+    const data = await create
+      .post("https://api.example.com/events")
+      .withFetch(fetchFn)
+      .withBody({ id: BigInt("9007199254740993") })
+      .getParsed();
+    assert.equal(sent[0].body, '{"id":"9007199254740993"}');
+    assert.deepEqual(data, { id: BigInt("9007199254740993"), at: new Date("2024-01-01T00:00:00.000Z") });
+  });
+
+  it("should validate parsed data with withResponseSchema", async () => {
+    Config.getInstance().setSerializer("application/x-tagged", tagged(7));
+    const positive: StandardSchemaV1 = {
+      "~standard": { version: 1, vendor: "test", validate: value => ((value as number) > 0 ? { value } : { issues: [{ message: "Expected positive" }] }) },
+    };
+    const { fetchFn } = recorder(new Uint8Array([7, ...new TextEncoder().encode("-1")]), { "content-type": "application/x-tagged" });
+
+    await assert.rejects(
+      create.get("https://api.example.com/count").withFetch(fetchFn).withResponseSchema(positive).getParsed(),
+      (error: RequestError) => error.message === "Schema: Expected positive"
+    );
+  });
+
+  it("should report serializer failures and bad registrations", async () => {
+    const { fetchFn } = recorder();
+    Config.getInstance().setSerializer("application/x-broken", {
+      serialize: () => {
+        throw new Error("boom");
+      },
+    });
+
+    await assert.rejects(
+      create.put("https://api.example.com/events").withFetch(fetchFn).withContentType("application/x-broken").withBody({ a: 1 }).getResponse(),
+      (error: RequestError) => error instanceof RequestError && error.message === "Serialize: boom" && error.method === "PUT"
+    );
+
+    assert.throws(
+      () => Config.getInstance().setSerializer("", tagged(1)),
+      (error: RequestError) => error.message === "Bad serializer: "
+    );
+    assert.throws(
+      () => Config.getInstance().setSerializer("application/x", {}),
+      (error: RequestError) => error.message === "Bad serializer: application/x"
+    );
+    assert.throws(() => createApi().withSerializer("application/x", { parse: "nope" } as unknown as BodySerializer), RequestError);
+
+    // null removes a serializer
+    Config.getInstance().setSerializer("application/x-broken", null);
+    await create.put("https://api.example.com/events").withFetch(fetchFn).withContentType("application/x-broken").withBody({ a: 1 }).getResponse();
+  });
+});
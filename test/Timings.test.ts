@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { describe, it, beforeEach, afterEach } from "node:test";
+import create, { type RequestError } from "../src/index.js";
+import { FetchMock, wait } from "./utils/fetchMock.js";
+
+describe("Request Timings", { timeout: 10000 }, () => {
+  beforeEach(() => {
+    FetchMock.install();
+    FetchMock.reset();
+  });
+
+  afterEach(() => {
+    FetchMock.restore();
+  });
+
+  it("should report time to headers and body on the response", async () => {
+    FetchMock.mockDelayedResponseOnce(30, { body: { ok: true } });
+
+    const response = await create.get("https://api.example.com/data").getResponse();
+    const { timings } = response;
+
+    assert.ok(timings);
+    assert.equal(timings.attempts, 1);
+    assert.equal(timings.queued, 0);
+    assert.ok(timings.headers >= 25, `headers: ${timings.headers}`);
+    assert.ok(timings.total >= timings.headers);
+    assert.equal(timings.body, undefined);
+
+    await response.getJson();
+    assert.ok(timings.body! >= timings.headers);
+  });
+
+  it("should count attempts and the total time including retry delays", async () => {
+    FetchMock.mockResponseOnce({ status: 503, body: {} });
+    FetchMock.mockResponseOnce({ body: {} });
+
+    const response = await create.get("https://api.example.com/data").withRetries({ attempts: 2, delay: 40 }).getResponse();
+
+    assert.equal(response.timings!.attempts, 2);
+    assert.ok(response.timings!.total >= 35, `total: ${response.timings!.total}`);
+  });
+
+  it("should attach timings to the error of a failed request", async () => {
+    FetchMock.mockResponseOnce({ status: 500, body: {} });
+    FetchMock.mockResponseOnce({ status: 500, body: {} });
+
+    await assert.rejects(create.get("https://api.example.com/data").withRetries(1).getJson(), (error: RequestError) => {
+      assert.equal(error.timings?.attempts, 2);
+      assert.ok(error.timings.total >= 0);
+      return true;
+    });
+  });
+
+  it("should measure interceptor time", async () => {
+    FetchMock.mockResponseOnce({ body: {} });
+
+    const response = await create
+      .get("https://api.example.com/data")
+      .withRequestInterceptor(async config => {
+        await wait(30);
+        return config;
+      })
+      .getResponse();
+
+    assert.ok(response.timings!.interceptors >= 25, `interceptors: ${response.timings!.interceptors}`);
+    assert.ok(response.timings!.headers < 25, `headers: ${response.timings!.headers}`);
+  });
+
+  it("should measure time spent waiting for a concurrency slot", async () => {
+    FetchMock.mockDelayedResponseOnce(40, { body: {} });
+    FetchMock.mockResponseOnce({ body: {} });
+    const api = create.api().withBaseURL("https://api.example.com").withConcurrency(1);
+
+    const [, second] = await Promise.all([api.get("/a").getJson(), api.get("/b").getResponse()]);
+
+    assert.ok(second.timings!.queued >= 30, `queued: ${second.timings!.queued}`);
+    assert.ok(second.timings!.headers < 30, `headers: ${second.timings!.headers}`);
+  });
+});
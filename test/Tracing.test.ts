@@ -0,0 +1,164 @@
+import assert from "node:assert/strict";
+import { describe, it, beforeEach, afterEach } from "node:test";
+import create, { type Tracer, type TracingSpan, type SpanAttributes } from "../src/index.js";
+import { FetchMock } from "./utils/fetchMock.js";
+
+type MemorySpan = TracingSpan & {
+  name: string;
+  parent?: MemorySpan;
+  attributes: SpanAttributes;
+  status?: { code: number; message?: string };
+  ended: boolean;
+  ends: number;
+};
+
+/**
+ * In-memory tracer recording every span it starts
+ */
+const memoryTracer = (traceState?: string) => {
+  const spans: MemorySpan[] = [];
+  let nextId = 1;
+  const tracer: Tracer = {
+    startSpan(name, { attributes, parent }) {
+      const spanId = (nextId++).toString(16).padStart(16, "0");
+      const traceId = parent ? parent.spanContext().traceId : "4bf92f3577b34da6a3ce929d0e0e4736";
+      const span: MemorySpan = {
+        name,
+        parent: parent as MemorySpan | undefined,
+        attributes: { ...attributes },
+        ended: false,
+        ends: 0,
+        spanContext: () => ({ traceId, spanId, traceFlags: 1, traceState: traceState ? { serialize: () => traceState } : undefined }),
+        setAttribute(key, value) {
+          span.attributes[key] = value;
+        },
+        setStatus(status) {
+          span.status = status;
+        },
+        end() {
+          span.ended = true;
+          span.ends++;
+        },
+      };
+      spans.push(span);
+      return span;
+    },
+  };
+  return { tracer, spans };
+};
+
+const sentHeaders = (call: number) => (FetchMock.mock.calls[call][1] as RequestInit).headers as Record<string, string>;
+
+describe("Tracing", { timeout: 10000 }, () => {
+  beforeEach(() => {
+    FetchMock.install();
+    FetchMock.reset();
+    create.config.reset();
+  });
+
+  afterEach(() => {
+    FetchMock.restore();
+    create.config.reset();
+  });
+
+  it("should create a request span and an attempt span and send traceparent", async () => {
+    FetchMock.mockResponseOnce({ body: { ok: true } });
+    const { tracer, spans } = memoryTracer();
+
+    await create.get("https://api.example.com:8443/users").withTracing(tracer).getJson();
+
+    assert.equal(spans.length, 2);
+    const [request, attempt] = spans;
+    assert.equal(attempt.parent, request);
+    assert.equal(request.name, "GET");
+    assert.deepEqual(attempt.attributes, {
+      "http.request.method": "GET",
+      "url.full": "https://api.example.com:8443/users",
+      "server.address": "api.example.com",
+      "server.port": 8443,
+      "http.response.status_code": 200,
+    });
+    assert.equal(request.attributes["http.response.status_code"], 200);
+    assert.ok(spans.every(span => span.ended && !span.status));
+    assert.equal(sentHeaders(0).traceparent, "00-4bf92f3577b34da6a3ce929d0e0e4736-0000000000000002-01");
+    assert.equal(sentHeaders(0).tracestate, undefined);
+  });
+
+  it("should create a child span per retry attempt", async () => {
+    FetchMock.mockResponseOnce({ status: 503, body: {} });
+    FetchMock.mockResponseOnce({ body: {} });
+    const { tracer, spans } = memoryTracer("vendor=abc");
+
+    await create.get("https://api.example.com/users").withTracing(tracer).withRetries(1).getJson();
+
+    const [request, first, second] = spans;
+    assert.equal(spans.length, 3);
+    assert.ok(first.parent === request && second.parent === request);
+    assert.equal(first.attributes["error.type"], "503");
+    assert.equal(first.status?.code, 2);
+    assert.equal(second.attributes["http.request.resend_count"], 1);
+    assert.equal(second.attributes["http.response.status_code"], 200);
+    assert.equal(request.status, undefined);
+    assert.equal(sentHeaders(1).traceparent, `00-4bf92f3577b34da6a3ce929d0e0e4736-${second.spanContext().spanId}-01`);
+    assert.equal(sentHeaders(1).tracestate, "vendor=abc");
+  });
+
+  it("should record the error type of a failed request", async () => {
+    FetchMock.mockDelayedResponseOnce(200, { body: {} });
+    const { tracer, spans } = memoryTracer();
+
+    await assert.rejects(create.get("https://api.example.com/slow").withTracing(tracer).withTimeout(10).getJson());
+
+    assert.ok(spans.every(span => span.ended && span.attributes["error.type"] === "timeout" && span.status?.code === 2));
+  });
+
+  it("should end the attempt span once, as failed, when a response interceptor throws", async () => {
+    FetchMock.mockResponseOnce({ body: {} });
+    const { tracer, spans } = memoryTracer();
+
+    const request = create
+      .get("https://api.example.com/data")
+      .withTracing(tracer)
+      .withResponseInterceptor(() => {
+        throw new Error("Rejected");
+      });
+    await assert.rejects(request.getJson());
+
+    assert.ok(spans.every(span => span.ends === 1 && span.status?.code === 2));
+  });
+
+  it("should use the global tracer and keep a traceparent set by the caller", async () => {
+    FetchMock.mockResponseOnce({ body: {} });
+    FetchMock.mockResponseOnce({ body: {} });
+    const { tracer, spans } = memoryTracer();
+    create.config.setTracer(tracer);
+
+    await create.get("https://api.example.com/a").getJson();
+    await create.get("https://api.example.com/b").withHeader("traceparent", "00-custom-01").getJson();
+
+    assert.equal(spans.length, 4);
+    assert.ok(sentHeaders(0).traceparent.startsWith("00-4bf92f"));
+    assert.equal(sentHeaders(1).traceparent, "00-custom-01");
+  });
+
+  it("should still share deduplicated calls, whose trace headers differ", async () => {
+    FetchMock.mockDelayedResponseOnce(20, { body: { id: 1 } });
+    const { tracer, spans } = memoryTracer();
+    const request = () => create.get("https://api.example.com/me").withTracing(tracer).withDedupe().getJson();
+
+    const results = await Promise.all([request(), request()]);
+
+    assert.deepEqual(results, [{ id: 1 }, { id: 1 }]);
+    assert.equal(FetchMock.mock.calls.length, 1);
+    assert.ok(sentHeaders(0).traceparent.startsWith("00-4bf92f"));
+    assert.equal(spans.length, 4);
+  });
+
+  it("should not trace without a tracer", async () => {
+    FetchMock.mockResponseOnce({ body: {} });
+
+    await create.get("https://api.example.com/a").getJson();
+
+    assert.equal(sentHeaders(0).traceparent, undefined);
+  });
+});
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import create, { type FetchFunction, type TransferProgress } from "../src/index.js";
+
+/**
+ * Fetch stub that reads the request body like a real fetch would
+ */
+const readingFetch = (statuses: number[] = [200]) => {
+  const received: Array<{ body: string; headers: Record<string, string>; duplex?: string }> = [];
+  const fetchFn: FetchFunction = async (_url, init) => {
+    const body = await new Response(init?.body).text();
+    received.push({ body, headers: init?.headers as Record<string, string>, duplex: (init as { duplex?: string }).duplex });
+    return new Response("{}", { status: statuses[received.length - 1] ?? 200 });
+  };
+  return { fetchFn, received };
+};
+
+describe("Upload Progress", { timeout: 10000 }, () => {
+  it("should report progress for a Blob body with a known total", async () => {
+    const { fetchFn, received } = readingFetch();
+    const progress: TransferProgress[] = [];
+    const blob = new Blob(["x".repeat(100_000)]);
+
+    await create
+      .post("https://api.example.com/upload")
+      .withBody(blob)
+      .withUploadProgress(event => progress.push(event))
+      .withFetch(fetchFn)
+      .getResponse();
+
+    assert.equal(received[0].body.length, 100_000);
+    assert.equal(received[0].duplex, "half");
+    assert.ok(progress.length >= 1);
+    assert.ok(progress.every(event => event.total === 100_000));
+    assert.ok(progress.every((event, i) => i === 0 || event.loaded >= progress[i - 1].loaded));
+    assert.deepEqual(progress.at(-1), { loaded: 100_000, total: 100_000, percent: 100 });
+  });
+
+  it("should use the serialized size of a JSON body", async () => {
+    const { fetchFn, received } = readingFetch();
+    const progress: TransferProgress[] = [];
+
+    await create
+      .post("https://api.example.com/users")
+      .withBody({ name: "Zoë" })
+      .withUploadProgress(event => progress.push(event))
+      .withFetch(fetchFn)
+      .getResponse();
+
+    assert.equal(received[0].body, '{"name":"Zoë"}');
+    assert.equal(received[0].headers["Content-Type"], "application/json");
+    assert.deepEqual(progress.at(-1), { loaded: 15, total: 15, percent: 100 });
+  });
+
+  it("should keep the multipart Content-Type of FormData and report the total at the end", async () => {
+    const { fetchFn, received } = readingFetch();
+    const progress: TransferProgress[] = [];
+    const form = new FormData();
+    form.append("file", new Blob(["hello"]), "hello.txt");
+
+    await create
+      .post("https://api.example.com/upload")
+      .withBody(form)
+      .withUploadProgress(event => progress.push(event))
+      .withFetch(fetchFn)
+      .getResponse();
+
+    assert.match(received[0].headers["Content-Type"], /^multipart\/form-data; boundary=/);
+    assert.ok(received[0].body.includes("hello"));
+    const last = progress.at(-1)!;
+    assert.equal(last.total, last.loaded);
+    assert.equal(last.percent, 100);
+    assert.ok(progress.slice(0, -1).every(event => event.total === undefined && event.percent === undefined));
+  });
+
+  it("should report each attempt from the start", async () => {
+    const { fetchFn, received } = readingFetch([503, 200]);
+    const progress: TransferProgress[] = [];
+
+    await create
+      .put("https://api.example.com/items/1")
+      .withBody("payload")
+      .withRetries(1)
+      .withUploadProgress(event => progress.push(event))
+      .withFetch(fetchFn)
+      .getResponse();
+
+    assert.deepEqual(
+      received.map(request => request.body),
+      ["payload", "payload"]
+    );
+    assert.deepEqual(
+      progress.map(event => event.loaded),
+      [7, 7]
+    );
+  });
+
+  it("should pass the body unchanged without a progress callback", async () => {
+    let sent: unknown;
+    await create
+      .post("https://api.example.com/upload")
+      .withBody("payload")
+      .withFetch((_url, init) => {
+        sent = init?.body;
+        return Promise.resolve(new Response("{}"));
+      })
+      .getResponse();
+
+    assert.equal(sent, "payload");
+  });
+});
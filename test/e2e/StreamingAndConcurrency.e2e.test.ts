@@ -1,6 +1,6 @@
 import assert from "node:assert/strict";
 import { describe, it, before, after, beforeEach } from "node:test";
-import create, { createApi } from "../../src/index.js";
+import create, { createApi, type TransferProgress } from "../../src/index.js";
 import { TestServer, deterministicBytes } from "./utils/testServer.js";
 
 describe("e2e: streaming, compression, concurrency and api builder over real HTTP", { timeout: 30000 }, () => {
@@ -53,6 +53,82 @@ describe("e2e: streaming, compression, concurrency and api builder over real HTT
     assert.deepEqual(Buffer.from(buffer), deterministicBytes(4096));
   });
 
+  it("reports download progress against the real Content-Length", async () => {
+    const progress: TransferProgress[] = [];
+    const buffer = await create
+      .get(server.url("/binary?size=262144"))
+      .withDownloadProgress(event => progress.push(event))
+      .getArrayBuffer();
+
+    assert.equal(buffer.byteLength, 262144);
+    assert.ok(progress.every(event => event.total === 262144));
+    assert.deepEqual(progress.at(-1), { loaded: 262144, total: 262144, percent: 100 });
+  });
+
+  it("reports download progress of chunked and gzip responses without a known total", async () => {
+    const streamed: TransferProgress[] = [];
+    await create
+      .get(server.url("/stream?chunks=3&delay=10"))
+      .withDownloadProgress(event => streamed.push(event))
+      .getText();
+    assert.ok(streamed.length > 2, `expected a report per chunk, got ${streamed.length}`);
+    assert.deepEqual(streamed.at(-1), { loaded: 24, total: 24, percent: 100 });
+
+    const gzipped: TransferProgress[] = [];
+    const data = await create
+      .get(server.url("/gzip"))
+      .withDownloadProgress(event => gzipped.push(event))
+      .getJson();
+    assert.deepEqual(data, { compressed: true, message: "gzipped hello" });
+    assert.equal(gzipped[0].total, gzipped.length > 1 ? undefined : gzipped[0].loaded);
+    assert.equal(gzipped.at(-1)!.total, JSON.stringify(data).length);
+  });
+
+  it("reads POST Server-Sent Events and reconnects GET streams with Last-Event-ID", async () => {
+    const posted: unknown[] = [];
+    for await (const { data } of create.post(server.url("/events?count=3")).withBody({ stream: true }).getEventStream()) {
+      posted.push(JSON.parse(data));
+    }
+    assert.deepEqual(posted, [
+      { n: 1, method: "POST", lastEventId: null },
+      { n: 2, method: "POST", lastEventId: null },
+      { n: 3, method: "POST", lastEventId: null },
+    ]);
+
+    const received: Array<{ id?: string; data: { n: number; lastEventId: string | null } }> = [];
+    for await (const { id, data } of create.get(server.url("/events?count=2")).getEventStream()) {
+      received.push({ id, data: JSON.parse(data) as { n: number; lastEventId: string | null } });
+      if (received.length === 4) break;
+    }
+    assert.deepEqual(
+      received.map(event => [event.id, event.data.n, event.data.lastEventId]),
+      [
+        ["1", 1, null],
+        ["2", 2, null],
+        ["3", 3, "2"],
+        ["4", 4, "2"],
+      ]
+    );
+    assert.equal(server.lastRequest.headers.accept, "text/event-stream");
+  });
+
+  it("streams NDJSON lines and stops the download on break", async () => {
+    const values: Array<{ n: number; text: string }> = [];
+    for await (const value of create.get(server.url("/ndjson?count=4")).getJsonStream<{ n: number; text: string }>()) {
+      values.push(value);
+    }
+    assert.deepEqual(
+      values.map(value => value.text),
+      ["é", "éé", "ééé", "éééé"]
+    );
+
+    const started = Date.now();
+    for await (const value of create.get(server.url("/ndjson?count=1000&delay=20")).getJsonStream<{ n: number }>()) {
+      if (value.n === 2) break;
+    }
+    assert.ok(Date.now() - started < 5000);
+  });
+
   it("handles many concurrent requests over real sockets", async () => {
     const results = await Promise.all(Array.from({ length: 20 }, (_, i) => create.get(server.url("/echo")).withQueryParam("i", i).getJson<{ query: { i: string } }>()));
 
@@ -27,7 +27,7 @@ export type RecordedRequest = {
  * - GET  /json                     → { "message": "hello", "source": "e2e" }
  * - GET  /text                     → plain text
  * - GET  /empty                    → 204, no body
- * - GET  /binary?size=N            → N deterministic bytes (application/octet-stream)
+ * - GET  /binary?size=N            → N deterministic bytes (application/octet-stream, with Content-Length)
  * - ANY  /status/{code}            → responds with that status and a JSON error body
  * - GET  /flaky/{key}?fails=N      → 500 for the first N requests per key, then 200
  * - GET  /slow?ms=N                → responds after N milliseconds
@@ -141,7 +141,7 @@ export class TestServer {
 
     if (route === "/binary") {
       const size = Number(requestUrl.searchParams.get("size") ?? 256);
-      res.writeHead(200, { "content-type": "application/octet-stream" });
+      res.writeHead(200, { "content-type": "application/octet-stream", "content-length": size });
       res.end(deterministicBytes(size));
       return;
     }
@@ -191,6 +191,42 @@ export class TestServer {
       return;
     }
 
+    if (route === "/events") {
+      const count = Number(requestUrl.searchParams.get("count") ?? 3);
+      const lastEventId = req.headers["last-event-id"];
+      const first = Number(lastEventId ?? 0) + 1;
+      res.writeHead(200, { "content-type": "text/event-stream", "cache-control": "no-cache" });
+      res.write(": connected\nretry: 10\n\n");
+      let id = first;
+      const timer = setInterval(() => {
+        res.write(`id: ${id}\ndata: ${JSON.stringify({ n: id, method: req.method, lastEventId: lastEventId ?? null })}\n\n`);
+        id += 1;
+        if (id >= first + count) {
+          clearInterval(timer);
+          res.end();
+        }
+      }, 5);
+      res.once("close", () => clearInterval(timer));
+      return;
+    }
+
+    if (route === "/ndjson") {
+      const count = Number(requestUrl.searchParams.get("count") ?? 3);
+      const delay = Number(requestUrl.searchParams.get("delay") ?? 5);
+      res.writeHead(200, { "content-type": "application/x-ndjson" });
+      let sent = 0;
+      const timer = setInterval(() => {
+        sent += 1;
+        res.write(`${JSON.stringify({ n: sent, text: "é".repeat(sent) })}\n`);
+        if (sent >= count) {
+          clearInterval(timer);
+          res.end();
+        }
+      }, delay);
+      res.once("close", () => clearInterval(timer));
+      return;
+    }
+
     if (route === "/gzip") {
       const compressed = gzipSync(JSON.stringify({ compressed: true, message: "gzipped hello" }));
       res.writeHead(200, { "content-type": "application/json", "content-encoding": "gzip" });